@@ -3,12 +3,26 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "@/contexts/AuthContext";
+import { RequireAuth, RequirePermission } from "@/components/RouteGuards";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Admin from "./pages/Admin";
+import AdminUsers from "./pages/AdminUsers";
 import Chat from "./pages/Chat";
 import Enquiries from "./pages/Enquiries";
+import EnquiryDetails from "./pages/EnquiryDetails";
+import EmailConfirmed from "./pages/EmailConfirmed";
+import EmailPreferences from "./pages/EmailPreferences";
+import ForgotPassword from "./pages/ForgotPassword";
+import MyEnquiries from "./pages/MyEnquiries";
+import Profile from "./pages/Profile";
+import ResetPassword from "./pages/ResetPassword";
+import SavedListings from "./pages/SavedListings";
+import SavedSearches from "./pages/SavedSearches";
 import Services from "./pages/Services";
+import TrackEnquiry from "./pages/TrackEnquiry";
+import UpgradeAccount from "./pages/UpgradeAccount";
 import ManageServices from "./pages/ManageServices";
 import NotFound from "./pages/NotFound";
 
@@ -16,22 +30,36 @@ const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/admin" element={<Admin />} />
-          <Route path="/chat" element={<Chat />} />
-          <Route path="/enquiries" element={<Enquiries />} />
-          <Route path="/services" element={<Services />} />
-          <Route path="/manage-services" element={<ManageServices />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/auth/confirmed" element={<EmailConfirmed />} />
+            <Route path="/forgot-password" element={<ForgotPassword />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/admin" element={<RequirePermission permission="listings.update"><Admin /></RequirePermission>} />
+            <Route path="/admin/users" element={<RequirePermission permission="users.manage"><AdminUsers /></RequirePermission>} />
+            <Route path="/chat" element={<RequireAuth><Chat /></RequireAuth>} />
+            <Route path="/enquiries" element={<RequirePermission permission="enquiries.handle"><Enquiries /></RequirePermission>} />
+            <Route path="/enquiries/:id" element={<RequireAuth><EnquiryDetails /></RequireAuth>} />
+            <Route path="/my-enquiries" element={<RequireAuth><MyEnquiries /></RequireAuth>} />
+            <Route path="/profile" element={<RequireAuth><Profile /></RequireAuth>} />
+            <Route path="/saved" element={<RequireAuth><SavedListings /></RequireAuth>} />
+            <Route path="/saved-searches" element={<RequireAuth><SavedSearches /></RequireAuth>} />
+            <Route path="/services" element={<Services />} />
+            <Route path="/email-preferences" element={<RequireAuth><EmailPreferences /></RequireAuth>} />
+            <Route path="/manage-services" element={<RequirePermission permission="listings.update"><ManageServices /></RequirePermission>} />
+            <Route path="/track/:token" element={<TrackEnquiry />} />
+            <Route path="/upgrade-account" element={<RequireAuth allowGuests><UpgradeAccount /></RequireAuth>} />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
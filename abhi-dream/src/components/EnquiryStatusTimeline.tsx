@@ -0,0 +1,43 @@
+import { Calendar } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatEnquiryStatus } from "@/lib/enquiry-status";
+
+export type EnquiryStatusEvent = Tables<"enquiry_status_history">;
+
+interface EnquiryStatusTimelineProps {
+  // Only what the public tracking page is given, so it can share the timeline
+  events: Pick<EnquiryStatusEvent, "id" | "from_status" | "to_status" | "reason" | "created_at">[];
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString("en-IN", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+export default function EnquiryStatusTimeline({ events }: EnquiryStatusTimelineProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes recorded yet</p>;
+  }
+
+  return (
+    <ol className="space-y-2 border-l pl-4">
+      {events.map((event) => (
+        <li key={event.id} className="text-sm">
+          <span className="font-medium">
+            {event.from_status ? formatEnquiryStatus(event.to_status) : "Submitted"}
+          </span>
+          {event.reason && <p className="text-muted-foreground">{event.reason}</p>}
+          <span className="text-muted-foreground flex items-center">
+            <Calendar className="w-3 h-3 mr-1" />
+            {formatDate(event.created_at)}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
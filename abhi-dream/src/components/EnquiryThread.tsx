@@ -0,0 +1,188 @@
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeFunction } from "@/integrations/api/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+import { MessageSquare, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type EnquiryMessage = Tables<"enquiry_messages">;
+
+interface EnquiryThreadProps {
+  enquiryId: string;
+  currentUserId: string;
+}
+
+const senderRoleLabels: Record<string, string> = {
+  user: "Customer",
+  guest: "Guest",
+  admin: "Admin",
+  employee: "Employee",
+};
+
+export default function EnquiryThread({ enquiryId, currentUserId }: EnquiryThreadProps) {
+  const [messages, setMessages] = useState<EnquiryMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let isActive = true;
+
+    const loadMessages = async () => {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from("enquiry_messages")
+        .select("*")
+        .eq("enquiry_id", enquiryId)
+        .order("created_at", { ascending: true });
+
+      if (!isActive) return;
+      if (error) {
+        console.error("Load messages error:", error);
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to load conversation",
+        });
+      } else {
+        setMessages(data || []);
+      }
+      setIsLoading(false);
+    };
+
+    loadMessages();
+
+    const channel = supabase
+      .channel(`enquiry_messages:${enquiryId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "enquiry_messages", filter: `enquiry_id=eq.${enquiryId}` },
+        (payload) => appendMessage(payload.new as EnquiryMessage)
+      )
+      .subscribe();
+
+    return () => {
+      isActive = false;
+      supabase.removeChannel(channel);
+    };
+  }, [enquiryId]);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  // Sent messages arrive both in the function response and over realtime
+  const appendMessage = (message: EnquiryMessage) => {
+    setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+  };
+
+  const sendMessage = async () => {
+    const message = input.trim();
+    if (!message || isSending) return;
+
+    setIsSending(true);
+    try {
+      const response = await invokeFunction("send-message", {
+        enquiry_id: enquiryId,
+        message,
+      });
+
+      appendMessage(response.data);
+      setInput("");
+    } catch (error) {
+      console.error("Send message error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send message",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString("en-IN", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <MessageSquare className="w-5 h-5 mr-2 text-primary" />
+          Conversation
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div ref={scrollRef} className="h-80 overflow-y-auto pr-2 mb-4 space-y-4">
+          {isLoading ? (
+            <p className="text-center text-muted-foreground py-12">Loading conversation...</p>
+          ) : messages.length === 0 ? (
+            <div className="text-center text-muted-foreground py-12">
+              <MessageSquare className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No messages yet. Start the conversation below.</p>
+            </div>
+          ) : (
+            messages.map((message) => {
+              const isOwn = message.sender_id === currentUserId;
+              return (
+                <div key={message.id} className={cn("flex flex-col", isOwn ? "items-end" : "items-start")}>
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-xs font-medium">{isOwn ? "You" : senderRoleLabels[message.sender_role] || message.sender_role}</span>
+                    <Badge variant={message.sender_role === "user" || message.sender_role === "guest" ? "outline" : "secondary"} className="text-[10px] px-1.5 py-0">
+                      {message.sender_role}
+                    </Badge>
+                  </div>
+                  <div
+                    className={cn(
+                      "max-w-[80%] rounded-lg px-4 py-2",
+                      isOwn ? "bg-primary text-primary-foreground" : "bg-muted"
+                    )}
+                  >
+                    <p className="text-sm whitespace-pre-wrap">{message.message}</p>
+                  </div>
+                  {message.created_at && (
+                    <span className="text-xs text-muted-foreground mt-1">{formatTime(message.created_at)}</span>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                sendMessage();
+              }
+            }}
+            placeholder="Type your message..."
+            rows={2}
+            maxLength={2000}
+            disabled={isSending}
+          />
+          <Button onClick={sendMessage} disabled={isSending || !input.trim()} className="self-end">
+            <Send className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
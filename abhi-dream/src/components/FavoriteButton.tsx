@@ -0,0 +1,20 @@
+import { Heart } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface FavoriteButtonProps {
+  isFavorite: boolean;
+  onToggle: () => void;
+}
+
+export default function FavoriteButton({ isFavorite, onToggle }: FavoriteButtonProps) {
+  return (
+    <button
+      onClick={onToggle}
+      className="absolute top-3 left-3 w-8 h-8 rounded-full bg-white/90 hover:bg-white flex items-center justify-center shadow-lg transition-all hover:scale-110"
+      aria-label={isFavorite ? "Remove from saved" : "Save listing"}
+      aria-pressed={isFavorite}
+    >
+      <Heart className={cn("w-4 h-4", isFavorite ? "fill-destructive text-destructive" : "text-primary")} />
+    </button>
+  );
+}
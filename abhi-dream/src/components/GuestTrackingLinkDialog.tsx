@@ -0,0 +1,69 @@
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import { Copy } from "lucide-react";
+import { trackingPath, trackingUrl } from "@/lib/guest-enquiries";
+
+interface GuestTrackingLinkDialogProps {
+  /** Tracking token of the enquiry just submitted, null when closed */
+  token: string | null;
+  onClose: () => void;
+}
+
+export default function GuestTrackingLinkDialog({ token, onClose }: GuestTrackingLinkDialogProps) {
+  const copyLink = async () => {
+    if (!token) return;
+    try {
+      await navigator.clipboard.writeText(trackingUrl(token));
+      toast({ title: "Link copied" });
+    } catch (error) {
+      console.error("Copy tracking link error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Could not copy the link, please copy it manually",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!token} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Track Your Enquiry</DialogTitle>
+          <DialogDescription>
+            Keep this link to check the status of your enquiry and reply to our team. Anyone with the
+            link can view the enquiry, so don't share it.
+          </DialogDescription>
+        </DialogHeader>
+        {token && (
+          <div className="flex gap-2">
+            <Input readOnly value={trackingUrl(token)} onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={copyLink} aria-label="Copy link">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {token && (
+            <Button asChild>
+              <Link to={trackingPath(token)}>Track Enquiry</Link>
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,25 @@
+interface HoneypotFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * A form field people never see or reach with the keyboard. Spam bots fill in
+ * every input, so send-guest-enquiry drops submissions where it is not empty.
+ */
+export default function HoneypotField({ value, onChange }: HoneypotFieldProps) {
+  return (
+    <div aria-hidden="true" className="absolute -left-[9999px] h-0 w-0 overflow-hidden">
+      <label htmlFor="website">Website</label>
+      <input
+        id="website"
+        name="website"
+        type="text"
+        tabIndex={-1}
+        autoComplete="off"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+}
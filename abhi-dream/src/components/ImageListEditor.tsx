@@ -0,0 +1,122 @@
+import { ChevronLeft, ChevronRight, Upload, X } from "lucide-react";
+
+/**
+ * An image in a listing form: either an already uploaded public URL,
+ * or a newly selected file whose `url` is a local data URL preview.
+ */
+export interface ImageItem {
+  url: string;
+  file?: File;
+}
+
+interface ImageListEditorProps {
+  inputId: string;
+  images: ImageItem[];
+  onChange: (images: ImageItem[]) => void;
+}
+
+export default function ImageListEditor({ inputId, images, onChange }: ImageListEditorProps) {
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files) return;
+
+    const newFiles = Array.from(files);
+    Promise.all(
+      newFiles.map(
+        (file) =>
+          new Promise<ImageItem>((resolve) => {
+            const reader = new FileReader();
+            reader.onloadend = () => resolve({ url: reader.result as string, file });
+            reader.readAsDataURL(file);
+          })
+      )
+    ).then((newImages) => onChange([...images, ...newImages]));
+
+    // Allow selecting the same file again after removing it
+    e.target.value = "";
+  };
+
+  const removeImage = (index: number) => {
+    onChange(images.filter((_, i) => i !== index));
+  };
+
+  const moveImage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= images.length) return;
+
+    const reordered = [...images];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <>
+      <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary transition-colors">
+        <input
+          type="file"
+          id={inputId}
+          multiple
+          accept="image/*"
+          onChange={handleImageSelect}
+          className="hidden"
+        />
+        <label htmlFor={inputId} className="cursor-pointer">
+          <Upload className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            Click to upload images or drag and drop
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            PNG, JPG, WEBP up to 10MB
+          </p>
+        </label>
+      </div>
+
+      {images.length > 0 && (
+        <div className="grid grid-cols-3 gap-4 mt-4">
+          {images.map((image, index) => (
+            <div key={index} className="relative group">
+              <img
+                src={image.url}
+                alt={`Preview ${index + 1}`}
+                className="w-full h-32 object-cover rounded-lg"
+              />
+              {index === 0 && (
+                <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-primary text-primary-foreground text-xs">
+                  Cover
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() => removeImage(index)}
+                className="absolute top-2 right-2 w-6 h-6 bg-destructive text-destructive-foreground rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                aria-label="Remove image"
+              >
+                <X className="w-4 h-4" />
+              </button>
+              <div className="absolute bottom-2 inset-x-2 flex justify-between opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  type="button"
+                  onClick={() => moveImage(index, -1)}
+                  disabled={index === 0}
+                  className="w-6 h-6 bg-background/90 rounded-full flex items-center justify-center disabled:opacity-40"
+                  aria-label="Move image left"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveImage(index, 1)}
+                  disabled={index === images.length - 1}
+                  className="w-6 h-6 bg-background/90 rounded-full flex items-center justify-center disabled:opacity-40"
+                  aria-label="Move image right"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
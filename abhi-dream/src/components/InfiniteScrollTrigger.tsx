@@ -0,0 +1,41 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+
+interface InfiniteScrollTriggerProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+/**
+ * Loads the next page when scrolled into view. The button stays as a
+ * fallback for browsers without IntersectionObserver and for keyboard users.
+ */
+export default function InfiniteScrollTrigger({ hasMore, isLoading, onLoadMore }: InfiniteScrollTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading || typeof IntersectionObserver === "undefined") return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) onLoadMore();
+      },
+      { rootMargin: "400px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center pt-8">
+      <Button variant="outline" onClick={() => onLoadMore()} disabled={isLoading}>
+        {isLoading ? "Loading more..." : "Load more"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useEffect, useMemo, useState } from "react";
+import { Circle, CircleMarker, MapContainer, Popup, Rectangle, TileLayer, useMapEvents } from "react-leaflet";
+import type { LatLng, Map as LeafletMap } from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Crosshair, Scan, SquareDashed, X } from "lucide-react";
+import type { Listing } from "@/lib/listings";
+import {
+  areaBounds,
+  formatCoordinates,
+  parseCoordinates,
+  type ListingSearchFilters,
+} from "@/lib/listing-search";
+
+type AreaFilters = Pick<ListingSearchFilters, "near" | "radius" | "bounds">;
+
+interface ListingMapProps {
+  listings: Listing[];
+  filters: AreaFilters;
+  onAreaChange: (changes: AreaFilters) => void;
+}
+
+type DrawMode = "none" | "point" | "area";
+
+// Centre of India, shown until there is something to zoom to
+const DEFAULT_CENTER: [number, number] = [20.5937, 78.9629];
+const DEFAULT_ZOOM = 5;
+
+// Matches --primary; Leaflet writes colours to SVG attributes, which cannot read CSS variables
+const PIN_COLOR = "hsl(217, 91%, 60%)";
+
+const radiusOptions = ["1", "2", "5", "10", "25", "50"];
+
+function MapClickHandler({ onClick }: { onClick: (latlng: LatLng) => void }) {
+  useMapEvents({
+    click: (e) => onClick(e.latlng),
+  });
+  return null;
+}
+
+export default function ListingMap({ listings, filters, onAreaChange }: ListingMapProps) {
+  const [map, setMap] = useState<LeafletMap | null>(null);
+  const [drawMode, setDrawMode] = useState<DrawMode>("none");
+  const [firstCorner, setFirstCorner] = useState<LatLng | null>(null);
+  const [radius, setRadius] = useState(filters.radius || "5");
+
+  const near = parseCoordinates(filters.near, 2);
+  const bounds = parseCoordinates(filters.bounds, 4);
+  const radiusKm = Number(filters.radius);
+  const mappedListings = useMemo(
+    () => listings.filter((listing) => listing.latitude != null && listing.longitude != null),
+    [listings]
+  );
+  const hasArea = !!(near || bounds);
+
+  // Zoom to the results unless the user has picked an area themselves
+  useEffect(() => {
+    if (!map || hasArea || mappedListings.length === 0) return;
+    map.fitBounds(
+      mappedListings.map((listing) => [listing.latitude!, listing.longitude!] as [number, number]),
+      { padding: [40, 40], maxZoom: 14 }
+    );
+  }, [map, hasArea, mappedListings]);
+
+  const handleMapClick = (latlng: LatLng) => {
+    if (drawMode === "point") {
+      onAreaChange({ near: formatCoordinates([latlng.lat, latlng.lng]), radius, bounds: "" });
+      setDrawMode("none");
+    } else if (drawMode === "area") {
+      if (!firstCorner) {
+        setFirstCorner(latlng);
+        return;
+      }
+      onAreaChange({
+        near: "",
+        radius: "",
+        bounds: formatCoordinates(areaBounds(
+          Math.min(firstCorner.lat, latlng.lat),
+          Math.min(firstCorner.lng, latlng.lng),
+          Math.max(firstCorner.lat, latlng.lat),
+          Math.max(firstCorner.lng, latlng.lng),
+        )),
+      });
+      setFirstCorner(null);
+      setDrawMode("none");
+    }
+  };
+
+  const searchVisibleArea = () => {
+    if (!map) return;
+    const visible = map.getBounds();
+    onAreaChange({
+      near: "",
+      radius: "",
+      bounds: formatCoordinates(areaBounds(visible.getSouth(), visible.getWest(), visible.getNorth(), visible.getEast())),
+    });
+  };
+
+  const startDrawing = (mode: DrawMode) => {
+    setFirstCorner(null);
+    setDrawMode(drawMode === mode ? "none" : mode);
+  };
+
+  const handleRadiusChange = (value: string) => {
+    setRadius(value);
+    if (near) onAreaChange({ near: filters.near, radius: value, bounds: "" });
+  };
+
+  const clearArea = () => {
+    setFirstCorner(null);
+    setDrawMode("none");
+    onAreaChange({ near: "", radius: "", bounds: "" });
+  };
+
+  const drawHint =
+    drawMode === "point"
+      ? "Click the map to search around that point"
+      : drawMode === "area"
+        ? firstCorner ? "Click the opposite corner of the area" : "Click the first corner of the area"
+        : null;
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={searchVisibleArea} disabled={!map}>
+          <Scan className="w-4 h-4 mr-2" />
+          Search this area
+        </Button>
+        <Button
+          variant={drawMode === "area" ? "default" : "outline"}
+          size="sm"
+          onClick={() => startDrawing("area")}
+        >
+          <SquareDashed className="w-4 h-4 mr-2" />
+          Draw area
+        </Button>
+        <Button
+          variant={drawMode === "point" ? "default" : "outline"}
+          size="sm"
+          onClick={() => startDrawing("point")}
+        >
+          <Crosshair className="w-4 h-4 mr-2" />
+          Search near a point
+        </Button>
+        <Select value={radius} onValueChange={handleRadiusChange}>
+          <SelectTrigger className="w-28 h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {radiusOptions.map((option) => (
+              <SelectItem key={option} value={option}>{option} km</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {hasArea && (
+          <Button variant="ghost" size="sm" onClick={clearArea}>
+            <X className="w-4 h-4 mr-2" />
+            Clear area
+          </Button>
+        )}
+        {drawHint && <span className="text-sm text-muted-foreground">{drawHint}</span>}
+      </div>
+
+      {/* Own stacking context so Leaflet's panes stay under the navbar and dialogs */}
+      <div className="relative z-0 h-[500px] rounded-lg overflow-hidden border">
+        <MapContainer
+          ref={setMap}
+          center={DEFAULT_CENTER}
+          zoom={DEFAULT_ZOOM}
+          className="h-full w-full"
+          scrollWheelZoom
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <MapClickHandler onClick={handleMapClick} />
+
+          {near && Number.isFinite(radiusKm) && radiusKm > 0 && (
+            <Circle center={[near[0], near[1]]} radius={radiusKm * 1000} pathOptions={{ color: PIN_COLOR, fillOpacity: 0.08 }} />
+          )}
+          {bounds && (
+            // An area crossing the antimeridian is drawn eastwards over it
+            <Rectangle
+              bounds={[[bounds[0], bounds[1]], [bounds[2], bounds[1] > bounds[3] ? bounds[3] + 360 : bounds[3]]]}
+              pathOptions={{ color: PIN_COLOR, fillOpacity: 0.08 }}
+            />
+          )}
+          {firstCorner && <CircleMarker center={firstCorner} radius={4} />}
+
+          {mappedListings.map((listing) => (
+            <CircleMarker
+              key={listing.id}
+              center={[listing.latitude!, listing.longitude!]}
+              radius={8}
+              pathOptions={{ color: "white", weight: 2, fillColor: PIN_COLOR, fillOpacity: 1 }}
+            >
+              <Popup>
+                <p className="font-semibold">{listing.title}</p>
+                <p>{formatPrice(listing.price)}</p>
+                {listing.address && <p className="text-muted-foreground">{listing.address}</p>}
+              </Popup>
+            </CircleMarker>
+          ))}
+        </MapContainer>
+      </div>
+
+      {mappedListings.length < listings.length && (
+        <p className="text-sm text-muted-foreground">
+          {listings.length - mappedListings.length} of the loaded properties have no map location yet.
+        </p>
+      )}
+    </div>
+  );
+}
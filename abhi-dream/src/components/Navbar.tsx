@@ -1,9 +1,7 @@
-import { useState, useEffect } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Building2, LogOut, User, MessageSquare } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import { User as SupabaseUser } from "@supabase/supabase-js";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -13,57 +11,21 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { toast } from "@/hooks/use-toast";
+import NotificationBell from "@/components/NotificationBell";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Navbar() {
   const navigate = useNavigate();
-  const [user, setUser] = useState<SupabaseUser | null>(null);
-  const [userRole, setUserRole] = useState<string | null>(null);
-  const [isGuest, setIsGuest] = useState(false);
-
-  useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
-      setIsGuest(session?.user?.is_anonymous || false);
-      if (session?.user && !session.user.is_anonymous) {
-        checkUserRole(session.user.id);
-      }
-    });
-
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      setUser(session?.user ?? null);
-      setIsGuest(session?.user?.is_anonymous || false);
-      if (session?.user && !session.user.is_anonymous) {
-        checkUserRole(session.user.id);
-      } else {
-        setUserRole(null);
-      }
-    });
-
-    return () => subscription.unsubscribe();
-  }, []);
-
-  const checkUserRole = async (userId: string) => {
-    const { data } = await supabase
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", userId)
-      .single();
-    
-    if (data) {
-      setUserRole(data.role);
-    }
-  };
+  const { user, isGuest, can } = useAuth();
 
   const handleLogout = async () => {
+    // Leave first, or the guard of a protected page would complain about the sign-out
+    navigate(isGuest ? "/auth" : "/");
     await supabase.auth.signOut();
-    setUser(null);
-    setUserRole(null);
-    setIsGuest(false);
     toast({
       title: "Logged out",
       description: isGuest ? "Guest session ended." : "You've been successfully logged out.",
     });
-    navigate(isGuest ? "/auth" : "/");
   };
 
   return (
@@ -90,6 +52,8 @@ export default function Navbar() {
               </Button>
             )}
 
+            {user && !isGuest && <NotificationBell userId={user.id} />}
+
             {(user || isGuest) ? (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -107,7 +71,31 @@ export default function Navbar() {
                   <DropdownMenuItem onClick={() => navigate("/services")}>
                     Featured Services
                   </DropdownMenuItem>
-                  {(userRole === "admin" || userRole === "employee") && (
+                  {isGuest && (
+                    <DropdownMenuItem onClick={() => navigate("/upgrade-account")}>
+                      Create Account
+                    </DropdownMenuItem>
+                  )}
+                  {!isGuest && (
+                    <>
+                      <DropdownMenuItem onClick={() => navigate("/profile")}>
+                        My Profile
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => navigate("/my-enquiries")}>
+                        My Enquiries
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => navigate("/saved")}>
+                        Saved Listings
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => navigate("/saved-searches")}>
+                        Saved Searches
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => navigate("/email-preferences")}>
+                        Email Preferences
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                  {can("listings.update") && (
                     <>
                       <DropdownMenuItem onClick={() => navigate("/admin")}>
                         Manage Properties
@@ -115,11 +103,18 @@ export default function Navbar() {
                       <DropdownMenuItem onClick={() => navigate("/manage-services")}>
                         Manage Services
                       </DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => navigate("/enquiries")}>
-                        View Enquiries
-                      </DropdownMenuItem>
                     </>
                   )}
+                  {can("enquiries.handle") && (
+                    <DropdownMenuItem onClick={() => navigate("/enquiries")}>
+                      View Enquiries
+                    </DropdownMenuItem>
+                  )}
+                  {can("users.manage") && (
+                    <DropdownMenuItem onClick={() => navigate("/admin/users")}>
+                      Manage Users
+                    </DropdownMenuItem>
+                  )}
                   {!isGuest && (
                     <DropdownMenuItem onClick={() => navigate("/chat")} className="sm:hidden">
                       Chat Assistant
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, BellRing, CheckCheck, CheckCircle, CircleArrowRight, Heart, Inbox, MessageSquare, UserCheck, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useNotifications, type Notification } from "@/hooks/use-notifications";
+import { cn } from "@/lib/utils";
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+const notificationIcons: Record<string, typeof Bell> = {
+  enquiry_accepted: CheckCircle,
+  enquiry_rejected: XCircle,
+  enquiry_status_changed: CircleArrowRight,
+  enquiry_assigned: UserCheck,
+  new_message: MessageSquare,
+  new_enquiry: Inbox,
+  favorite_updated: Heart,
+  saved_search_match: BellRing,
+};
+
+// related_id is an enquiry id, except for listing alerts where it is a listing id
+const getNotificationLink = (notification: Notification) => {
+  switch (notification.type) {
+    case "favorite_updated":
+      return "/saved";
+    case "saved_search_match":
+      return "/saved-searches";
+    default:
+      return `/enquiries/${notification.related_id}`;
+  }
+};
+
+export default function NotificationBell({ userId }: NotificationBellProps) {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const { notifications, unreadCount, isLoading, markAsRead, markAllAsRead } = useNotifications(userId);
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.read) {
+      markAsRead(notification.id);
+    }
+    if (notification.related_id) {
+      setOpen(false);
+      navigate(getNotificationLink(notification));
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Notifications">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs font-semibold flex items-center justify-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="font-semibold">Notifications</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={markAllAsRead}
+            disabled={unreadCount === 0}
+            className="h-8 px-2 text-xs"
+          >
+            <CheckCheck className="w-4 h-4 mr-1" />
+            Mark all as read
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading notifications...</p>
+        ) : notifications.length === 0 ? (
+          <div className="text-center py-8">
+            <Bell className="w-10 h-10 mx-auto mb-2 text-muted-foreground opacity-50" />
+            <p className="text-sm text-muted-foreground">You're all caught up</p>
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map((notification) => {
+              const Icon = notificationIcons[notification.type] || Bell;
+              return (
+                <div
+                  key={notification.id}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => handleSelect(notification)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSelect(notification)}
+                  className={cn(
+                    "flex gap-3 px-4 py-3 cursor-pointer hover:bg-muted transition-colors",
+                    !notification.read && "bg-primary/5"
+                  )}
+                >
+                  <Icon className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className={cn("text-sm", !notification.read && "font-semibold")}>
+                      {notification.title}
+                    </p>
+                    <p className="text-sm text-muted-foreground line-clamp-2">
+                      {notification.message}
+                    </p>
+                    {notification.created_at && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                  {!notification.read && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        markAsRead(notification.id);
+                      }}
+                      className="w-2 h-2 mt-1.5 rounded-full bg-primary flex-shrink-0"
+                      aria-label="Mark as read"
+                      title="Mark as read"
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -4,27 +4,17 @@ import { Badge } from "@/components/ui/badge";
 import { Bed, Bath, Square, MapPin, Info } from "lucide-react";
 import { useState } from "react";
 import PropertyDetailsDialog from "./PropertyDetailsDialog";
-
-interface Property {
-  id: string;
-  title: string;
-  description: string;
-  price: number;
-  address: string;
-  bedrooms?: number;
-  bathrooms?: number;
-  area_sqft?: number;
-  property_type?: string;
-  status: string;
-  images?: string[];
-}
+import FavoriteButton from "./FavoriteButton";
+import type { Listing } from "@/lib/listings";
 
 interface PropertyCardProps {
-  property: Property;
-  onEnquire: (property: Property) => void;
+  property: Listing;
+  onEnquire: (property: Listing) => void;
+  isFavorite?: boolean;
+  onToggleFavorite?: (property: Listing) => void;
 }
 
-export default function PropertyCard({ property, onEnquire }: PropertyCardProps) {
+export default function PropertyCard({ property, onEnquire, isFavorite = false, onToggleFavorite }: PropertyCardProps) {
   const [showDetails, setShowDetails] = useState(false);
 
   const formatPrice = (price: number) => {
@@ -51,6 +41,9 @@ export default function PropertyCard({ property, onEnquire }: PropertyCardProps)
           >
             <Info className="w-4 h-4 text-primary" />
           </button>
+          {onToggleFavorite && (
+            <FavoriteButton isFavorite={isFavorite} onToggle={() => onToggleFavorite(property)} />
+          )}
         </div>
       <CardHeader>
         <div className="flex justify-between items-start">
@@ -0,0 +1,173 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X } from "lucide-react";
+import { PROPERTY_TYPES } from "@/lib/listings";
+import {
+  LISTING_SORTS,
+  listingSortLabels,
+  type ListingSearchFilters,
+} from "@/lib/listing-search";
+
+interface PropertyFiltersProps {
+  filters: ListingSearchFilters;
+  onChange: (changes: Partial<ListingSearchFilters>) => void;
+  onClear: () => void;
+  showClear: boolean;
+}
+
+// Radix Select does not allow an empty item value
+const ANY = "any";
+
+const roomOptions = ["1", "2", "3", "4", "5"];
+
+export default function PropertyFilters({ filters, onChange, onClear, showClear }: PropertyFiltersProps) {
+  const selectValue = (value: string) => value || ANY;
+  const fromSelect = (value: string) => (value === ANY ? "" : value);
+
+  return (
+    <div className="rounded-lg border bg-card p-4 mb-8">
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="filter-min-price">Min Price (₹)</Label>
+          <Input
+            id="filter-min-price"
+            type="number"
+            min="0"
+            value={filters.min_price}
+            onChange={(e) => onChange({ min_price: e.target.value })}
+            placeholder="No min"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="filter-max-price">Max Price (₹)</Label>
+          <Input
+            id="filter-max-price"
+            type="number"
+            min="0"
+            value={filters.max_price}
+            onChange={(e) => onChange({ max_price: e.target.value })}
+            placeholder="No max"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="filter-min-area">Min Area (sqft)</Label>
+          <Input
+            id="filter-min-area"
+            type="number"
+            min="0"
+            value={filters.min_area}
+            onChange={(e) => onChange({ min_area: e.target.value })}
+            placeholder="No min"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="filter-max-area">Max Area (sqft)</Label>
+          <Input
+            id="filter-max-area"
+            type="number"
+            min="0"
+            value={filters.max_area}
+            onChange={(e) => onChange({ max_area: e.target.value })}
+            placeholder="No max"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Property Type</Label>
+          <Select
+            value={selectValue(filters.property_type)}
+            onValueChange={(value) => onChange({ property_type: fromSelect(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any type</SelectItem>
+              {PROPERTY_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Bedrooms</Label>
+          <Select
+            value={selectValue(filters.bedrooms)}
+            onValueChange={(value) => onChange({ bedrooms: fromSelect(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any</SelectItem>
+              {roomOptions.map((count) => (
+                <SelectItem key={count} value={count}>{count}+</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Bathrooms</Label>
+          <Select
+            value={selectValue(filters.bathrooms)}
+            onValueChange={(value) => onChange({ bathrooms: fromSelect(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any</SelectItem>
+              {roomOptions.map((count) => (
+                <SelectItem key={count} value={count}>{count}+</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select
+            value={selectValue(filters.status)}
+            onValueChange={(value) => onChange({ status: fromSelect(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any status</SelectItem>
+              <SelectItem value="available">Available</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="sold">Sold</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Sort By</Label>
+          <Select
+            value={filters.sort || (filters.q ? "relevance" : "newest")}
+            onValueChange={(value) => onChange({ sort: value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LISTING_SORTS.map((sort) => (
+                <SelectItem key={sort} value={sort} disabled={sort === "relevance" && !filters.q}>
+                  {listingSortLabels[sort]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {showClear && (
+          <div className="flex items-end">
+            <Button variant="ghost" className="w-full" onClick={onClear}>
+              <X className="w-4 h-4 mr-2" />
+              Clear filters
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { describeAuthError, resendVerificationEmail } from "@/lib/auth-flows";
+
+interface ResendVerificationButtonProps {
+  email: string;
+}
+
+export default function ResendVerificationButton({ email }: ResendVerificationButtonProps) {
+  const [isSending, setIsSending] = useState(false);
+  const [hasSent, setHasSent] = useState(false);
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      await resendVerificationEmail(email);
+      setHasSent(true);
+      toast({
+        title: "Verification email sent",
+        description: `Check ${email} for a new confirmation link.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not resend",
+        description: describeAuthError(error, "Unable to send the verification email"),
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Button type="button" variant="outline" className="w-full" onClick={handleResend} disabled={isSending || !email}>
+      {isSending ? "Sending..." : hasSent ? "Send again" : "Resend verification email"}
+    </Button>
+  );
+}
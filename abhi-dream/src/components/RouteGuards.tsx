@@ -0,0 +1,84 @@
+import { useEffect, type ReactNode } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import Navbar from "@/components/Navbar";
+import { toast } from "@/hooks/use-toast";
+import { useAuth, type AppRole, type Permission } from "@/hooks/use-auth";
+
+interface GuardProps {
+  children: ReactNode;
+}
+
+interface RequireAuthProps extends GuardProps {
+  /** Let anonymous guest sessions through, e.g. to upgrade their account */
+  allowGuests?: boolean;
+  /** Extra check once signed in; failing it sends the user home */
+  isAllowed?: boolean;
+}
+
+/**
+ * Renders the page only once the session is known and allowed, so protected
+ * pages never flash before redirecting. Signed-out users (and guests, unless
+ * allowed) go to /auth, signed-in users who fail `isAllowed` to the home page.
+ */
+export function RequireAuth({ children, allowGuests = false, isAllowed = true }: RequireAuthProps) {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user, isGuest, isLoading } = useAuth();
+
+  const needsLogin = !user || (isGuest && !allowGuests);
+  const canView = !isLoading && !needsLogin && isAllowed;
+
+  useEffect(() => {
+    if (isLoading || canView) return;
+
+    if (needsLogin) {
+      toast({
+        variant: "destructive",
+        title: "Access Denied",
+        description: "Please login to access this page",
+      });
+      navigate("/auth", { replace: true, state: { from: location.pathname } });
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Access Denied",
+        description: "You don't have permission to access this page",
+      });
+      navigate("/", { replace: true });
+    }
+  }, [isLoading, canView, needsLogin, navigate, location.pathname]);
+
+  if (!canView) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container mx-auto px-4 py-8">
+          <p className="text-muted-foreground">Checking permissions...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
+
+interface RequireRoleProps extends GuardProps {
+  /** Any one of these is enough */
+  roles: AppRole[];
+}
+
+/** Signed-in users holding at least one of `roles`. Prefer RequirePermission for staff features. */
+export function RequireRole({ roles, children }: RequireRoleProps) {
+  const { hasRole } = useAuth();
+  return <RequireAuth isAllowed={hasRole(...roles)}>{children}</RequireAuth>;
+}
+
+interface RequirePermissionProps extends GuardProps {
+  permission: Permission;
+}
+
+/** Signed-in users whose roles grant `permission`. */
+export function RequirePermission({ permission, children }: RequirePermissionProps) {
+  const { can } = useAuth();
+  return <RequireAuth isAllowed={can(permission)}>{children}</RequireAuth>;
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { BellPlus } from "lucide-react";
+import { z } from "zod";
+import type { SavedSearchCriteria } from "@/lib/saved-searches";
+
+const nameSchema = z.string().trim().min(1, "Name is required").max(100, "Name must be less than 100 characters");
+
+interface SaveSearchButtonProps {
+  /** Null for signed-out and guest sessions, which are asked to log in */
+  userId: string | null;
+  criteria: SavedSearchCriteria;
+  defaultName: string;
+}
+
+export default function SaveSearchButton({ userId, criteria, defaultName }: SaveSearchButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openDialog = () => {
+    if (!userId) {
+      toast({
+        title: "Login required",
+        description: "Please login to save searches",
+      });
+      return;
+    }
+    setName(defaultName);
+    setIsOpen(true);
+  };
+
+  const saveSearch = async () => {
+    const validation = nameSchema.safeParse(name);
+    if (!validation.success) {
+      toast({
+        variant: "destructive",
+        title: "Validation Error",
+        description: validation.error.errors[0].message,
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.from("saved_searches").insert({
+        ...criteria,
+        user_id: userId!,
+        name: validation.data,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Search saved",
+        description: "We'll notify you when new listings match this search.",
+      });
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Save search error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to save search",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={openDialog}>
+        <BellPlus className="w-4 h-4 mr-2" />
+        Save search
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Search</DialogTitle>
+            <DialogDescription>
+              Get a notification whenever a new listing matches your current search and filters.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. 3 BHK apartments"
+                maxLength={100}
+              />
+            </div>
+            <Button onClick={saveSearch} className="w-full" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Search"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -4,33 +4,17 @@ import { Badge } from "@/components/ui/badge";
 import { MapPin, Info } from "lucide-react";
 import { useState } from "react";
 import ServiceDetailsDialog from "./ServiceDetailsDialog";
-
-interface Service {
-  id: string;
-  title: string;
-  description: string;
-  price: number;
-  service_type: string;
-  status: string;
-  images?: string[];
-  address?: string;
-}
+import FavoriteButton from "./FavoriteButton";
+import { listingTypeLabels, type Listing } from "@/lib/listings";
 
 interface ServiceCardProps {
-  service: Service;
-  onEnquire: (service: Service) => void;
+  service: Listing;
+  onEnquire: (service: Listing) => void;
+  isFavorite?: boolean;
+  onToggleFavorite?: (service: Listing) => void;
 }
 
-const serviceTypeLabels: Record<string, string> = {
-  property: "Property",
-  renovation: "Renovation",
-  packers_movers: "Packers & Movers",
-  painting: "Painting",
-  cleaning: "Cleaning",
-  advertising: "Advertising"
-};
-
-export default function ServiceCard({ service, onEnquire }: ServiceCardProps) {
+export default function ServiceCard({ service, onEnquire, isFavorite = false, onToggleFavorite }: ServiceCardProps) {
   const [showDetails, setShowDetails] = useState(false);
 
   const formatPrice = (price: number) => {
@@ -57,6 +41,9 @@ export default function ServiceCard({ service, onEnquire }: ServiceCardProps) {
           >
             <Info className="w-4 h-4 text-primary" />
           </button>
+          {onToggleFavorite && (
+            <FavoriteButton isFavorite={isFavorite} onToggle={() => onToggleFavorite(service)} />
+          )}
         </div>
       <CardHeader>
         <div className="flex justify-between items-start">
@@ -81,7 +68,7 @@ export default function ServiceCard({ service, onEnquire }: ServiceCardProps) {
           {service.description}
         </p>
         <Badge variant="outline" className="mt-2">
-          {serviceTypeLabels[service.service_type] || service.service_type}
+          {listingTypeLabels[service.listing_type] || service.listing_type}
         </Badge>
       </CardContent>
       <CardFooter>
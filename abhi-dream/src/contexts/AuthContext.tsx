@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext, type AppRole, type AuthContextValue, type Permission, type Profile } from "@/hooks/use-auth";
+
+interface AccountDetails {
+  profile: Profile | null;
+  roles: Set<AppRole>;
+  permissions: Set<Permission>;
+}
+
+const NO_ACCOUNT: AccountDetails = {
+  profile: null,
+  roles: new Set(),
+  permissions: new Set(),
+};
+
+const accountKey = (userId: string | undefined) => ["account", userId];
+
+/**
+ * Holds the session and the signed-in user's profile, roles and permissions
+ * for the whole app, so pages and guards read them from one place instead of
+ * each querying Supabase.
+ */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  // Undefined until the stored session has been read
+  const [session, setSession] = useState<Session | null | undefined>(undefined);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSession(session);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const user = session?.user ?? null;
+  const isGuest = !!user?.is_anonymous;
+  const hasAccount = !!user && !isGuest;
+
+  const { data: account = NO_ACCOUNT, isPending } = useQuery({
+    queryKey: accountKey(user?.id),
+    enabled: hasAccount,
+    queryFn: async (): Promise<AccountDetails> => {
+      const [profileResult, rolesResult, permissionsResult] = await Promise.all([
+        supabase.from("profiles").select("*").eq("id", user!.id).maybeSingle(),
+        // Users can hold several roles, so never .single() here
+        supabase.from("user_roles").select("role").eq("user_id", user!.id),
+        supabase.rpc("my_permissions"),
+      ]);
+
+      if (profileResult.error) throw profileResult.error;
+      if (rolesResult.error) throw rolesResult.error;
+      if (permissionsResult.error) throw permissionsResult.error;
+
+      return {
+        profile: profileResult.data,
+        roles: new Set((rolesResult.data || []).map((row) => row.role)),
+        permissions: new Set(permissionsResult.data || []),
+      };
+    },
+  });
+
+  const hasRole = useCallback((...roles: AppRole[]) => roles.some((role) => account.roles.has(role)), [account]);
+  const can = useCallback((permission: Permission) => account.permissions.has(permission), [account]);
+
+  const refreshAccount = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: accountKey(user?.id) });
+  }, [queryClient, user?.id]);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      session: session ?? null,
+      user,
+      profile: account.profile,
+      roles: account.roles,
+      isGuest,
+      isLoading: session === undefined || (hasAccount && isPending),
+      hasRole,
+      can,
+      refreshAccount,
+    }),
+    [session, user, account, isGuest, hasAccount, isPending, hasRole, can, refreshAccount]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
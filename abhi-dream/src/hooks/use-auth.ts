@@ -0,0 +1,35 @@
+import { createContext, useContext } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+export type Permission = Database["public"]["Enums"]["app_permission"];
+export type Profile = Tables<"profiles">;
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  /** Null for guests, who have no profile */
+  profile: Profile | null;
+  roles: Set<AppRole>;
+  /** Signed in with an anonymous guest session */
+  isGuest: boolean;
+  /** True until the session, and for signed-in users their profile and roles, have loaded */
+  isLoading: boolean;
+  hasRole: (...roles: AppRole[]) => boolean;
+  /** What the user's roles allow; RLS and the edge functions check the same permissions */
+  can: (permission: Permission) => boolean;
+  /** Reload profile, roles and permissions, e.g. after editing the profile */
+  refreshAccount: () => Promise<void>;
+}
+
+// Provided by AuthProvider in contexts/AuthContext.tsx
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,65 @@
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+
+const EMPTY_FAVORITES = new Set<string>();
+
+const favoritesKey = (userId: string | null) => ["favorites", userId];
+
+/**
+ * The signed-in user's saved listing ids. Pass null for signed-out and guest
+ * sessions; `toggleFavorite` then asks the user to log in instead.
+ */
+export function useFavorites(userId: string | null) {
+  const queryClient = useQueryClient();
+
+  const { data: favoriteIds = EMPTY_FAVORITES, isLoading } = useQuery({
+    queryKey: favoritesKey(userId),
+    enabled: !!userId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("favorites")
+        .select("listing_id")
+        .eq("user_id", userId!);
+
+      if (error) throw error;
+      return new Set((data || []).map((favorite) => favorite.listing_id));
+    },
+  });
+
+  const toggleFavorite = useCallback(async (listingId: string) => {
+    if (!userId) {
+      toast({
+        title: "Login required",
+        description: "Please login to save listings",
+      });
+      return;
+    }
+
+    const previous = queryClient.getQueryData<Set<string>>(favoritesKey(userId)) ?? EMPTY_FAVORITES;
+    const isSaved = previous.has(listingId);
+
+    // Update the heart immediately and roll back if the request fails
+    const next = new Set(previous);
+    if (isSaved) next.delete(listingId);
+    else next.add(listingId);
+    queryClient.setQueryData(favoritesKey(userId), next);
+
+    const { error } = isSaved
+      ? await supabase.from("favorites").delete().eq("user_id", userId).eq("listing_id", listingId)
+      : await supabase.from("favorites").insert({ user_id: userId, listing_id: listingId });
+
+    if (error) {
+      console.error("Toggle favorite error:", error);
+      queryClient.setQueryData(favoritesKey(userId), previous);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: isSaved ? "Failed to remove from saved listings" : "Failed to save listing",
+      });
+    }
+  }, [userId, queryClient]);
+
+  return { favoriteIds, isLoading, toggleFavorite };
+}
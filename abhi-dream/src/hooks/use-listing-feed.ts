@@ -0,0 +1,70 @@
+import { useEffect, useMemo } from "react";
+import { keepPreviousData, useInfiniteQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+import type { Listing } from "@/lib/listings";
+
+export type ListingFeedArgs = Omit<
+  Database["public"]["Functions"]["search_listings"]["Args"],
+  "_cursor_key" | "_cursor_id" | "_limit"
+>;
+
+interface ListingCursor {
+  key: string;
+  id: string;
+}
+
+const PAGE_SIZE = 24;
+
+/** Shared query key prefix, invalidate it after creating, editing or deleting a listing. */
+export const LISTING_FEED_KEY = ["listing-feed"] as const;
+
+export function useListingFeed(args: ListingFeedArgs, errorMessage = "Failed to load listings") {
+  const query = useInfiniteQuery({
+    queryKey: [...LISTING_FEED_KEY, args],
+    initialPageParam: null as ListingCursor | null,
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase.rpc("search_listings", {
+        ...args,
+        _cursor_key: pageParam?.key,
+        _cursor_id: pageParam?.id,
+        _limit: PAGE_SIZE,
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+    getNextPageParam: (lastPage): ListingCursor | undefined => {
+      if (lastPage.length < PAGE_SIZE) return undefined;
+      const last = lastPage[lastPage.length - 1];
+      return { key: last.sort_key, id: last.listing.id };
+    },
+    // Keep showing the current results while a changed search loads
+    placeholderData: keepPreviousData,
+  });
+
+  useEffect(() => {
+    if (!query.error) return;
+    console.error("Load listings error:", query.error);
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: errorMessage,
+    });
+  }, [query.error, errorMessage]);
+
+  // Only a new array when the pages change, so effects can depend on it
+  const listings: Listing[] = useMemo(
+    () => query.data?.pages.flatMap((page) => page.map((row) => row.listing)) ?? [],
+    [query.data]
+  );
+
+  return {
+    listings,
+    isLoading: query.isPending,
+    isFetchingNextPage: query.isFetchingNextPage,
+    hasNextPage: query.hasNextPage,
+    fetchNextPage: query.fetchNextPage,
+  };
+}
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+
+export type Notification = Tables<"notifications">;
+
+const NOTIFICATION_LIMIT = 30;
+
+export function useNotifications(userId: string | null) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (!userId) return;
+
+    const { count } = await supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("read", false);
+
+    setUnreadCount(count ?? 0);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    let isActive = true;
+
+    const loadNotifications = async () => {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (!isActive) return;
+      if (error) {
+        console.error("Failed to load notifications:", error);
+      } else {
+        setNotifications(data || []);
+      }
+      setIsLoading(false);
+    };
+
+    loadNotifications();
+    refreshUnreadCount();
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const notification = payload.new as Notification;
+          setNotifications((prev) => [notification, ...prev].slice(0, NOTIFICATION_LIMIT));
+          refreshUnreadCount();
+          toast({
+            title: notification.title,
+            description: notification.message,
+          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const notification = payload.new as Notification;
+          setNotifications((prev) => prev.map((n) => (n.id === notification.id ? notification : n)));
+          refreshUnreadCount();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      isActive = false;
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refreshUnreadCount]);
+
+  const markAsRead = useCallback(async (notificationId: string) => {
+    setNotifications((prev) => prev.map((n) => (n.id === notificationId ? { ...n, read: true } : n)));
+
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read: true })
+      .eq("id", notificationId);
+
+    if (error) console.error("Failed to mark notification as read:", error);
+    refreshUnreadCount();
+  }, [refreshUnreadCount]);
+
+  const markAllAsRead = useCallback(async () => {
+    if (!userId) return;
+
+    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+    setUnreadCount(0);
+
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read: true })
+      .eq("user_id", userId)
+      .eq("read", false);
+
+    if (error) {
+      console.error("Failed to mark notifications as read:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to mark notifications as read",
+      });
+      refreshUnreadCount();
+    }
+  }, [userId, refreshUnreadCount]);
+
+  return { notifications, unreadCount, isLoading, markAsRead, markAllAsRead };
+}
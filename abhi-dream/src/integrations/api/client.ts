@@ -0,0 +1,101 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ApiFunctions, StreamingApiFunctions } from "../../../supabase/functions/_shared/api.ts";
+
+export type { EnquiryMessage, ManagedUser, TrackedEnquiry } from "../../../supabase/functions/_shared/api.ts";
+// Schemas the app also validates forms with before calling
+export { guestEnquirySchema } from "../../../supabase/functions/_shared/api.ts";
+export { USERS_PAGE_SIZE } from "../../../supabase/functions/_shared/api.ts";
+
+// Call edge functions through invokeFunction/streamFunction rather than
+// supabase.functions.invoke or fetch: they attach the user's session token and
+// turn error responses into an ApiError with a message fit for a toast:
+//
+//   await invokeFunction("send-enquiry", { listing_id, message });
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+export type ApiFunctionName = keyof ApiFunctions;
+export type ApiRequest<Name extends ApiFunctionName> = ApiFunctions[Name]["request"];
+export type ApiResponse<Name extends ApiFunctionName> = ApiFunctions[Name]["response"];
+
+/** One failed check from a function's zod schema, as sent with a 422 */
+export interface ApiValidationIssue {
+  message: string;
+  path: (string | number)[];
+}
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly details: ApiValidationIssue[] = [],
+    // Quote this when reporting a problem: the function logs are tagged with it
+    readonly requestId: string | null = null
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// Used when a function gives no message of its own
+const defaultMessages: Record<number, string> = {
+  401: "Please login to continue",
+  402: "AI usage credits exhausted. Please add credits.",
+  403: "You do not have permission to do that",
+  404: "Not found",
+  429: "Too many requests. Please try again later.",
+};
+
+async function toApiError(response: Response): Promise<ApiError> {
+  const body = await response.json().catch(() => null);
+  const details: ApiValidationIssue[] = Array.isArray(body?.details) ? body.details : [];
+
+  const requestId = body?.request_id ?? response.headers.get("X-Request-Id");
+
+  // A 422 says "Invalid input"; the first failed check says what to fix
+  const message = details[0]?.message ?? body?.error ?? defaultMessages[response.status] ?? "Something went wrong";
+  return new ApiError(message, response.status, details, requestId);
+}
+
+async function callFunction(name: string, body: unknown): Promise<Response> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  let response: Response;
+  try {
+    response = await fetch(`${SUPABASE_URL}/functions/v1/${name}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        apikey: SUPABASE_PUBLISHABLE_KEY,
+        // Signed-out visitors (e.g. on a tracking link) call with the publishable key
+        Authorization: `Bearer ${session?.access_token ?? SUPABASE_PUBLISHABLE_KEY}`,
+      },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new ApiError("Could not reach the server. Check your connection and try again.", 0);
+  }
+
+  if (!response.ok) throw await toApiError(response);
+  return response;
+}
+
+/** Calls a JSON edge function. Throws ApiError for any non-2xx response. */
+export async function invokeFunction<Name extends ApiFunctionName>(
+  name: Name,
+  body: ApiRequest<Name>
+): Promise<ApiResponse<Name>> {
+  const response = await callFunction(name, body);
+  return response.json();
+}
+
+/** Calls a streaming edge function and returns the event stream body. */
+export async function streamFunction<Name extends keyof StreamingApiFunctions>(
+  name: Name,
+  body: StreamingApiFunctions[Name]["request"]
+): Promise<ReadableStream<Uint8Array>> {
+  const response = await callFunction(name, body);
+  if (!response.body) throw new ApiError("Empty response", response.status);
+  return response.body;
+}
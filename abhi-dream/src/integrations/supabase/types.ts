@@ -14,15 +14,94 @@ export type Database = {
   }
   public: {
     Tables: {
+      email_outbox: {
+        Row: {
+          attempts: number
+          body_html: string
+          body_text: string
+          created_at: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          sent_at: string | null
+          status: string
+          subject: string
+          template: string
+          to_email: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          body_html: string
+          body_text: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          sent_at?: string | null
+          status?: string
+          subject: string
+          template: string
+          to_email: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          body_html?: string
+          body_text?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          template?: string
+          to_email?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      email_preferences: {
+        Row: {
+          created_at: string
+          enquiry_updates: boolean
+          new_enquiries: boolean
+          new_messages: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          enquiry_updates?: boolean
+          new_enquiries?: boolean
+          new_messages?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          enquiry_updates?: boolean
+          new_enquiries?: boolean
+          new_messages?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       enquiries: {
         Row: {
+          assigned_at: string | null
+          assigned_to: string | null
           created_at: string | null
           id: string
           is_guest: boolean | null
+          listing_id: string | null
           message: string | null
-          service_id: string | null
-          service_type: string | null
           status: string | null
+          status_changed_by: string | null
+          status_reason: string | null
+          tracking_token: string | null
           updated_at: string | null
           user_email: string
           user_id: string | null
@@ -30,13 +109,17 @@ export type Database = {
           user_phone: string
         }
         Insert: {
+          assigned_at?: string | null
+          assigned_to?: string | null
           created_at?: string | null
           id?: string
           is_guest?: boolean | null
+          listing_id?: string | null
           message?: string | null
-          service_id?: string | null
-          service_type?: string | null
           status?: string | null
+          status_changed_by?: string | null
+          status_reason?: string | null
+          tracking_token?: string | null
           updated_at?: string | null
           user_email: string
           user_id?: string | null
@@ -44,20 +127,32 @@ export type Database = {
           user_phone: string
         }
         Update: {
+          assigned_at?: string | null
+          assigned_to?: string | null
           created_at?: string | null
           id?: string
           is_guest?: boolean | null
+          listing_id?: string | null
           message?: string | null
-          service_id?: string | null
-          service_type?: string | null
           status?: string | null
+          status_changed_by?: string | null
+          status_reason?: string | null
+          tracking_token?: string | null
           updated_at?: string | null
           user_email?: string
           user_id?: string | null
           user_name?: string
           user_phone?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "enquiries_listing_id_fkey"
+            columns: ["listing_id"]
+            isOneToOne: false
+            referencedRelation: "listings"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       enquiry_messages: {
         Row: {
@@ -65,7 +160,7 @@ export type Database = {
           enquiry_id: string
           id: string
           message: string
-          sender_id: string
+          sender_id: string | null
           sender_role: string
         }
         Insert: {
@@ -73,7 +168,7 @@ export type Database = {
           enquiry_id: string
           id?: string
           message: string
-          sender_id: string
+          sender_id?: string | null
           sender_role: string
         }
         Update: {
@@ -81,7 +176,7 @@ export type Database = {
           enquiry_id?: string
           id?: string
           message?: string
-          sender_id?: string
+          sender_id?: string | null
           sender_role?: string
         }
         Relationships: [
@@ -94,6 +189,136 @@ export type Database = {
           },
         ]
       }
+      enquiry_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          enquiry_id: string
+          from_status: string | null
+          id: string
+          reason: string | null
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          enquiry_id: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          enquiry_id?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enquiry_status_history_enquiry_id_fkey"
+            columns: ["enquiry_id"]
+            isOneToOne: false
+            referencedRelation: "enquiries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      favorites: {
+        Row: {
+          created_at: string
+          id: string
+          listing_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          listing_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          listing_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "favorites_listing_id_fkey"
+            columns: ["listing_id"]
+            isOneToOne: false
+            referencedRelation: "listings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      listings: {
+        Row: {
+          address: string | null
+          area_sqft: number | null
+          bathrooms: number | null
+          bedrooms: number | null
+          created_at: string
+          created_by: string
+          description: string
+          geocoded_at: string | null
+          id: string
+          images: string[]
+          latitude: number | null
+          listing_type: string
+          longitude: number | null
+          price: number
+          property_type: string | null
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          area_sqft?: number | null
+          bathrooms?: number | null
+          bedrooms?: number | null
+          created_at?: string
+          created_by: string
+          description: string
+          geocoded_at?: string | null
+          id?: string
+          images?: string[]
+          latitude?: number | null
+          listing_type: string
+          longitude?: number | null
+          price: number
+          property_type?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          area_sqft?: number | null
+          bathrooms?: number | null
+          bedrooms?: number | null
+          created_at?: string
+          created_by?: string
+          description?: string
+          geocoded_at?: string | null
+          id?: string
+          images?: string[]
+          latitude?: number | null
+          listing_type?: string
+          longitude?: number | null
+          price?: number
+          property_type?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       notifications: {
         Row: {
           created_at: string | null
@@ -129,6 +354,7 @@ export type Database = {
       }
       profiles: {
         Row: {
+          avatar_url: string | null
           created_at: string | null
           email: string
           full_name: string
@@ -136,6 +362,7 @@ export type Database = {
           phone: string
         }
         Insert: {
+          avatar_url?: string | null
           created_at?: string | null
           email: string
           full_name: string
@@ -143,6 +370,7 @@ export type Database = {
           phone: string
         }
         Update: {
+          avatar_url?: string | null
           created_at?: string | null
           email?: string
           full_name?: string
@@ -151,96 +379,111 @@ export type Database = {
         }
         Relationships: []
       }
-      properties: {
+      rate_limit_hits: {
         Row: {
-          address: string
-          area_sqft: number | null
-          bathrooms: number | null
-          bedrooms: number | null
-          created_at: string | null
-          created_by: string
-          description: string
+          created_at: string
+          expires_at: string
           id: string
-          images: string[] | null
-          price: number
-          property_type: string | null
-          status: string | null
-          title: string
-          updated_at: string | null
+          key: string
         }
         Insert: {
-          address: string
-          area_sqft?: number | null
-          bathrooms?: number | null
-          bedrooms?: number | null
-          created_at?: string | null
-          created_by: string
-          description: string
+          created_at?: string
+          expires_at: string
           id?: string
-          images?: string[] | null
-          price: number
-          property_type?: string | null
-          status?: string | null
-          title: string
-          updated_at?: string | null
+          key: string
         }
         Update: {
-          address?: string
-          area_sqft?: number | null
-          bathrooms?: number | null
-          bedrooms?: number | null
-          created_at?: string | null
-          created_by?: string
-          description?: string
+          created_at?: string
+          expires_at?: string
           id?: string
-          images?: string[] | null
-          price?: number
-          property_type?: string | null
-          status?: string | null
-          title?: string
-          updated_at?: string | null
+          key?: string
         }
         Relationships: []
       }
-      services: {
+      role_permissions: {
         Row: {
-          address: string | null
-          created_at: string | null
-          created_by: string
-          description: string
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          permission?: Database["public"]["Enums"]["app_permission"]
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      saved_searches: {
+        Row: {
+          created_at: string
+          east: number | null
           id: string
-          images: string[] | null
-          price: number
-          service_type: string
+          listing_types: string[] | null
+          max_area: number | null
+          max_price: number | null
+          min_area: number | null
+          min_bathrooms: number | null
+          min_bedrooms: number | null
+          min_price: number | null
+          name: string
+          near_lat: number | null
+          near_lng: number | null
+          north: number | null
+          property_type: string | null
+          query: string | null
+          radius_km: number | null
+          south: number | null
           status: string | null
-          title: string
-          updated_at: string | null
+          user_id: string
+          west: number | null
         }
         Insert: {
-          address?: string | null
-          created_at?: string | null
-          created_by: string
-          description: string
+          created_at?: string
+          east?: number | null
           id?: string
-          images?: string[] | null
-          price: number
-          service_type: string
+          listing_types?: string[] | null
+          max_area?: number | null
+          max_price?: number | null
+          min_area?: number | null
+          min_bathrooms?: number | null
+          min_bedrooms?: number | null
+          min_price?: number | null
+          name: string
+          near_lat?: number | null
+          near_lng?: number | null
+          north?: number | null
+          property_type?: string | null
+          query?: string | null
+          radius_km?: number | null
+          south?: number | null
           status?: string | null
-          title: string
-          updated_at?: string | null
+          user_id: string
+          west?: number | null
         }
         Update: {
-          address?: string | null
-          created_at?: string | null
-          created_by?: string
-          description?: string
+          created_at?: string
+          east?: number | null
           id?: string
-          images?: string[] | null
-          price?: number
-          service_type?: string
+          listing_types?: string[] | null
+          max_area?: number | null
+          max_price?: number | null
+          min_area?: number | null
+          min_bathrooms?: number | null
+          min_bedrooms?: number | null
+          min_price?: number | null
+          name?: string
+          near_lat?: number | null
+          near_lng?: number | null
+          north?: number | null
+          property_type?: string | null
+          query?: string | null
+          radius_km?: number | null
+          south?: number | null
           status?: string | null
-          title?: string
-          updated_at?: string | null
+          user_id?: string
+          west?: number | null
         }
         Relationships: []
       }
@@ -270,6 +513,88 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      admin_list_users: {
+        Args: {
+          _limit: number
+          _offset: number
+          _search: string
+        }
+        Returns: {
+          created_at: string
+          email: string
+          email_confirmed: boolean
+          disabled: boolean
+          full_name: string
+          id: string
+          invited_at: string
+          last_sign_in_at: string
+          phone: string
+          role: Database["public"]["Enums"]["app_role"]
+          total_count: number
+        }[]
+      }
+      claim_email_outbox: {
+        Args: {
+          _lease_seconds?: number
+          _limit?: number
+        }
+        Returns: {
+          attempts: number
+          body_html: string
+          body_text: string
+          created_at: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          sent_at: string | null
+          status: string
+          subject: string
+          template: string
+          to_email: string
+          user_id: string | null
+        }[]
+      }
+      consume_rate_limit: {
+        Args: {
+          _key: string
+          _max_hits: number
+          _window_seconds: number
+        }
+        Returns: boolean
+      }
+      distance_km: {
+        Args: {
+          _lat1: number
+          _lat2: number
+          _lng1: number
+          _lng2: number
+        }
+        Returns: number
+      }
+      enquiry_handlers: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      enquiry_status_is_open: {
+        Args: {
+          _status: string
+        }
+        Returns: boolean
+      }
+      enquiry_status_transition_allowed: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: boolean
+      }
+      has_permission: {
+        Args: {
+          _permission: Database["public"]["Enums"]["app_permission"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -277,8 +602,87 @@ export type Database = {
         }
         Returns: boolean
       }
+      list_staff: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          email: string
+          full_name: string
+          open_enquiries: number
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }[]
+      }
+      listing_matches_search: {
+        Args: {
+          _listing: Database["public"]["Tables"]["listings"]["Row"]
+          _search: Database["public"]["Tables"]["saved_searches"]["Row"]
+        }
+        Returns: boolean
+      }
+      my_permissions: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["app_permission"][]
+      }
+      pick_enquiry_assignee: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      release_user_enquiries: {
+        Args: { _user_id: string }
+        Returns: number
+      }
+      search_listings: {
+        Args: {
+          _cursor_id?: string
+          _cursor_key?: string
+          _east?: number
+          _limit?: number
+          _listing_types?: string[]
+          _max_area?: number
+          _max_price?: number
+          _min_area?: number
+          _min_bathrooms?: number
+          _min_bedrooms?: number
+          _min_price?: number
+          _near_lat?: number
+          _near_lng?: number
+          _north?: number
+          _property_type?: string
+          _query?: string
+          _radius_km?: number
+          _sort?: string
+          _south?: number
+          _status?: string
+          _west?: number
+        }
+        Returns: {
+          listing: Database["public"]["Tables"]["listings"]["Row"]
+          sort_key: string
+        }[]
+      }
+      set_user_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      withdraw_enquiry: {
+        Args: {
+          _enquiry_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
+      app_permission:
+        | "listings.create"
+        | "listings.update"
+        | "listings.delete"
+        | "enquiries.handle"
+        | "enquiries.assign"
+        | "users.manage"
+        | "email_outbox.process"
       app_role: "admin" | "employee" | "user"
     }
     CompositeTypes: {
@@ -407,6 +811,15 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      app_permission: [
+        "listings.create",
+        "listings.update",
+        "listings.delete",
+        "enquiries.handle",
+        "enquiries.assign",
+        "users.manage",
+        "email_outbox.process",
+      ],
       app_role: ["admin", "employee", "user"],
     },
   },
@@ -0,0 +1,69 @@
+import { isAuthError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export const EMAIL_CONFIRMED_PATH = "/auth/confirmed";
+export const RESET_PASSWORD_PATH = "/reset-password";
+
+export const authRedirectUrl = (path: string) => `${window.location.origin}${path}`;
+
+/**
+ * The error auth appends to the URL when a link from one of its emails could
+ * not be used, e.g. because it expired or was opened twice. Null otherwise.
+ */
+export function readAuthRedirectError(): string | null {
+  const hash = new URLSearchParams(window.location.hash.slice(1));
+  const query = new URLSearchParams(window.location.search);
+  const code = hash.get("error_code") ?? query.get("error_code");
+  const description = hash.get("error_description") ?? query.get("error_description");
+
+  if (!code && !description) return null;
+  if (code === "otp_expired") return "This link has expired or has already been used.";
+  return description || "This link is invalid.";
+}
+
+/** A message for the auth errors people can do something about */
+export function describeAuthError(error: unknown, fallback: string): string {
+  if (!isAuthError(error)) {
+    return error instanceof Error ? error.message : fallback;
+  }
+
+  switch (error.code) {
+    case "invalid_credentials":
+      return "Incorrect email or password.";
+    case "email_not_confirmed":
+      return "Please confirm your email address before logging in.";
+    case "email_exists":
+    case "user_already_exists":
+      return "An account with this email already exists.";
+    case "same_password":
+      return "Your new password must be different from your current one.";
+    case "weak_password":
+      return "Please choose a stronger password.";
+    case "over_email_send_rate_limit":
+    case "over_request_rate_limit":
+      return "Too many attempts. Please wait a minute and try again.";
+    default:
+      return error.message || fallback;
+  }
+}
+
+export const isEmailNotConfirmed = (error: unknown) =>
+  isAuthError(error) && error.code === "email_not_confirmed";
+
+export async function resendVerificationEmail(email: string) {
+  const { error } = await supabase.auth.resend({
+    type: "signup",
+    email,
+    options: { emailRedirectTo: authRedirectUrl(EMAIL_CONFIRMED_PATH) },
+  });
+
+  if (error) throw error;
+}
+
+export async function requestPasswordReset(email: string) {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, {
+    redirectTo: authRedirectUrl(RESET_PASSWORD_PATH),
+  });
+
+  if (error) throw error;
+}
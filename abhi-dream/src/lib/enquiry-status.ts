@@ -0,0 +1,69 @@
+import type { ApiRequest } from "@/integrations/api/client";
+
+export const ENQUIRY_STATUSES = [
+  "pending",
+  "contacted",
+  "site_visit_scheduled",
+  "negotiation",
+  "closed_won",
+  "closed_lost",
+  "rejected",
+  "withdrawn",
+] as const;
+
+export type EnquiryStatus = (typeof ENQUIRY_STATUSES)[number];
+
+/** Statuses staff can move an enquiry to, as accepted by update-enquiry-status */
+export type StaffEnquiryStatus = ApiRequest<"update-enquiry-status">["status"];
+
+export const enquiryStatusLabels: Record<string, string> = {
+  pending: "Pending",
+  contacted: "Contacted",
+  site_visit_scheduled: "Site visit scheduled",
+  negotiation: "Negotiation",
+  closed_won: "Closed (won)",
+  closed_lost: "Closed (lost)",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+  // Replaced by "contacted", kept for old notifications
+  accepted: "Accepted",
+};
+
+/**
+ * The moves staff can make from each status. Mirrors
+ * public.enquiry_status_transition_allowed, which enforces them; customers
+ * withdraw pending enquiries through withdraw_enquiry instead.
+ */
+export const staffStatusTransitions: Record<EnquiryStatus, StaffEnquiryStatus[]> = {
+  pending: ["contacted", "rejected"],
+  contacted: ["site_visit_scheduled", "negotiation", "closed_won", "closed_lost"],
+  site_visit_scheduled: ["negotiation", "closed_won", "closed_lost"],
+  negotiation: ["site_visit_scheduled", "closed_won", "closed_lost"],
+  closed_won: [],
+  closed_lost: [],
+  rejected: [],
+  withdrawn: [],
+};
+
+/** Statuses still being worked on. Mirrors public.enquiry_status_is_open. */
+export const OPEN_ENQUIRY_STATUSES: EnquiryStatus[] = ["pending", "contacted", "site_visit_scheduled", "negotiation"];
+
+export function isEnquiryOpen(status: string | null): boolean {
+  return OPEN_ENQUIRY_STATUSES.includes((status ?? "pending") as EnquiryStatus);
+}
+
+/** Statuses that must be given a reason */
+export const REASON_REQUIRED_STATUSES: EnquiryStatus[] = ["rejected", "closed_lost"];
+
+export function getStaffTransitions(status: string | null): StaffEnquiryStatus[] {
+  return staffStatusTransitions[(status ?? "pending") as EnquiryStatus] ?? [];
+}
+
+export function formatEnquiryStatus(status: string | null): string {
+  return status ? enquiryStatusLabels[status] || status : enquiryStatusLabels.pending;
+}
+
+/** Badge variant for a status: muted once an enquiry is closed without a sale */
+export function enquiryStatusVariant(status: string | null): "default" | "secondary" {
+  return status === "rejected" || status === "withdrawn" || status === "closed_lost" ? "secondary" : "default";
+}
@@ -0,0 +1,80 @@
+import { guestEnquirySchema as guestEnquiryRequestSchema, invokeFunction } from "@/integrations/api/client";
+
+/** The fields guests fill in, checked by the same rules as send-guest-enquiry */
+export const guestEnquirySchema = guestEnquiryRequestSchema.pick({
+  name: true,
+  phone: true,
+  email: true,
+  message: true,
+});
+
+export interface GuestEnquiry {
+  listingId: string;
+  name: string;
+  email: string;
+  phone: string;
+  message: string;
+  /** Value of the hidden honeypot field, see HoneypotField */
+  website?: string;
+  captchaToken?: string;
+}
+
+/**
+ * Submits an enquiry from a guest session and returns its tracking token.
+ * Guests cannot read enquiries back, so the token is the only way for them
+ * to follow the enquiry afterwards. Null when the server dropped the
+ * submission as spam.
+ */
+export async function submitGuestEnquiry(enquiry: GuestEnquiry): Promise<string | null> {
+  const response = await invokeFunction("send-guest-enquiry", {
+    listing_id: enquiry.listingId,
+    name: enquiry.name,
+    email: enquiry.email,
+    phone: enquiry.phone,
+    message: enquiry.message,
+    website: enquiry.website,
+    captcha_token: enquiry.captchaToken,
+  });
+
+  if (response.tracking_token) {
+    rememberTrackingToken(response.tracking_token);
+  }
+  return response.tracking_token ?? null;
+}
+
+// Tokens of the guest enquiries sent from this browser, so that upgrading the
+// guest session can claim them without the guest digging out every link
+const TRACKING_TOKENS_KEY = "guest-enquiry-tracking-tokens";
+
+export function savedTrackingTokens(): string[] {
+  try {
+    const tokens = JSON.parse(localStorage.getItem(TRACKING_TOKENS_KEY) ?? "[]");
+    return Array.isArray(tokens) ? tokens.filter((token) => typeof token === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function rememberTrackingToken(token: string) {
+  const tokens = savedTrackingTokens().filter((saved) => saved !== token);
+  localStorage.setItem(TRACKING_TOKENS_KEY, JSON.stringify([...tokens, token].slice(-50)));
+}
+
+/**
+ * Moves the guest enquiries behind `tokens` into the signed-in account and
+ * returns how many moved. Once sent, a token is either claimed or no longer
+ * claimable, so it is forgotten either way.
+ */
+export async function claimGuestEnquiries(tokens = savedTrackingTokens()): Promise<number> {
+  if (tokens.length === 0) return 0;
+
+  const { claimed } = await invokeFunction("claim-enquiries", { tokens });
+
+  const remaining = savedTrackingTokens().filter((token) => !tokens.includes(token));
+  localStorage.setItem(TRACKING_TOKENS_KEY, JSON.stringify(remaining));
+  return claimed;
+}
+
+export const trackingPath = (token: string) => `/track/${token}`;
+
+export const trackingUrl = (token: string) => `${window.location.origin}${trackingPath(token)}`;
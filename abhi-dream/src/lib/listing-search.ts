@@ -0,0 +1,141 @@
+import type { Database } from "@/integrations/supabase/types";
+
+type SearchListingsArgs = Database["public"]["Functions"]["search_listings"]["Args"];
+
+export const LISTING_SORTS = ["newest", "relevance", "price_asc", "price_desc", "area_desc"] as const;
+
+export type ListingSort = (typeof LISTING_SORTS)[number];
+
+export const listingSortLabels: Record<ListingSort, string> = {
+  newest: "Newest first",
+  relevance: "Best match",
+  price_asc: "Price: low to high",
+  price_desc: "Price: high to low",
+  area_desc: "Largest area",
+};
+
+/**
+ * Property search filters as they appear in the URL query string.
+ * Values are kept as strings so they can be bound directly to inputs;
+ * an empty string means the filter is not set.
+ */
+export interface ListingSearchFilters {
+  q: string;
+  min_price: string;
+  max_price: string;
+  bedrooms: string;
+  bathrooms: string;
+  min_area: string;
+  max_area: string;
+  property_type: string;
+  status: string;
+  /** "lat,lng" centre of a radius search, used together with `radius` (km) */
+  near: string;
+  radius: string;
+  /** "south,west,north,east" map area */
+  bounds: string;
+  sort: string;
+}
+
+const FILTER_KEYS: (keyof ListingSearchFilters)[] = [
+  "q",
+  "min_price",
+  "max_price",
+  "bedrooms",
+  "bathrooms",
+  "min_area",
+  "max_area",
+  "property_type",
+  "status",
+  "near",
+  "radius",
+  "bounds",
+  "sort",
+];
+
+export function parseListingSearch(params: URLSearchParams): ListingSearchFilters {
+  const filters = {} as ListingSearchFilters;
+  FILTER_KEYS.forEach((key) => {
+    filters[key] = params.get(key)?.trim() ?? "";
+  });
+  return filters;
+}
+
+export function toListingSearchParams(filters: ListingSearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  FILTER_KEYS.forEach((key) => {
+    if (filters[key]) params.set(key, filters[key]);
+  });
+  return params;
+}
+
+const toNumber = (value: string) => {
+  if (!value) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+const toInteger = (value: string) => {
+  const number = toNumber(value);
+  return number === undefined ? undefined : Math.floor(number);
+};
+
+/** Parses a comma separated list of exactly `count` finite numbers. */
+export function parseCoordinates(value: string, count: number): number[] | undefined {
+  if (!value) return undefined;
+  const parts = value.split(",").map(Number);
+  return parts.length === count && parts.every(Number.isFinite) ? parts : undefined;
+}
+
+export function formatCoordinates(values: number[]): string {
+  return values.map((value) => value.toFixed(5)).join(",");
+}
+
+// The map reports positions on the copies of the world either side of it
+const wrapLongitude = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * South, west, north and east of a map area with its longitudes wrapped into
+ * -180..180. An area crossing the antimeridian then has its west edge east of
+ * its east edge, which search_listings matches on both sides.
+ */
+export function areaBounds(south: number, west: number, north: number, east: number): number[] {
+  if (east - west >= 360) return [south, -180, north, 180];
+  return [south, wrapLongitude(west), north, wrapLongitude(east)];
+}
+
+/** Maps URL filters to `search_listings` arguments, dropping invalid values. */
+export function toSearchListingsArgs(filters: ListingSearchFilters): SearchListingsArgs {
+  const sort = LISTING_SORTS.includes(filters.sort as ListingSort)
+    ? filters.sort
+    : filters.q ? "relevance" : "newest";
+
+  const near = parseCoordinates(filters.near, 2);
+  const radius = toNumber(filters.radius);
+  const bounds = parseCoordinates(filters.bounds, 4);
+
+  return {
+    _listing_types: ["property"],
+    _query: filters.q || undefined,
+    _min_price: toNumber(filters.min_price),
+    _max_price: toNumber(filters.max_price),
+    _min_bedrooms: toInteger(filters.bedrooms),
+    _min_bathrooms: toInteger(filters.bathrooms),
+    _min_area: toInteger(filters.min_area),
+    _max_area: toInteger(filters.max_area),
+    _property_type: filters.property_type || undefined,
+    _status: filters.status || undefined,
+    _near_lat: near && radius ? near[0] : undefined,
+    _near_lng: near && radius ? near[1] : undefined,
+    _radius_km: near && radius ? radius : undefined,
+    _south: bounds?.[0],
+    _west: bounds?.[1],
+    _north: bounds?.[2],
+    _east: bounds?.[3],
+    _sort: sort,
+  };
+}
+
+export function hasActiveFilters(filters: ListingSearchFilters): boolean {
+  return FILTER_KEYS.some((key) => key !== "sort" && filters[key] !== "");
+}
@@ -0,0 +1,92 @@
+import { invokeFunction } from "@/integrations/api/client";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+/**
+ * A property or service listing. Property-specific attributes
+ * (bedrooms, bathrooms, area_sqft, property_type) are only set
+ * when `listing_type` is "property".
+ */
+export type Listing = Tables<"listings">;
+
+export const LISTING_TYPES = [
+  "property",
+  "renovation",
+  "packers_movers",
+  "painting",
+  "cleaning",
+  "advertising",
+] as const;
+
+export type ListingType = (typeof LISTING_TYPES)[number];
+
+export const listingTypeLabels: Record<string, string> = {
+  property: "Property",
+  renovation: "Renovation",
+  packers_movers: "Packers & Movers",
+  painting: "Painting",
+  cleaning: "Cleaning",
+  advertising: "Advertising",
+};
+
+export const PROPERTY_TYPES = ["House", "Apartment", "Villa", "Land", "Commercial"] as const;
+
+/**
+ * Refreshes a listing's map coordinates from its address. Errors are logged
+ * and reported through the return value so a save never fails on geocoding.
+ */
+export async function geocodeListing(listingId: string): Promise<boolean> {
+  try {
+    await invokeFunction("geocode-listing", { listing_id: listingId });
+    return true;
+  } catch (error) {
+    console.error("Geocode error:", error);
+    return false;
+  }
+}
+
+/**
+ * Geocodes a batch of listings that have never been placed on the map and
+ * returns how many were done and how many are still waiting.
+ */
+export async function backfillListingLocations(): Promise<{ geocoded: number; remaining: number }> {
+  const { geocoded = 0, remaining = 0 } = await invokeFunction("geocode-listing", { backfill: true });
+  return { geocoded, remaining };
+}
+
+/**
+ * Whether a saved listing needs its coordinates refreshed: new listings,
+ * listings never geocoded, and listings whose address changed.
+ */
+export const needsGeocoding = (previous: Listing | undefined, address: string | null) =>
+  !previous?.geocoded_at || (previous.address ?? "") !== (address ?? "");
+
+const IMAGES_BUCKET = "property-images";
+
+/** Uploads an image for a listing under a unique name and returns its public URL. */
+export async function uploadListingImage(file: File): Promise<string> {
+  const filePath = `${crypto.randomUUID()}.${file.name.split(".").pop()}`;
+
+  const { error } = await supabase.storage.from(IMAGES_BUCKET).upload(filePath, file);
+  if (error) throw error;
+
+  const { data: { publicUrl } } = supabase.storage.from(IMAGES_BUCKET).getPublicUrl(filePath);
+  return publicUrl;
+}
+
+/**
+ * Removes the stored files behind image URLs a listing no longer uses. URLs
+ * from elsewhere are skipped, and failures are only logged: the listing has
+ * already been saved by the time this runs.
+ */
+export async function deleteListingImages(urls: string[]): Promise<void> {
+  const marker = `/storage/v1/object/public/${IMAGES_BUCKET}/`;
+  const paths = urls
+    .filter((url) => url.includes(marker))
+    .map((url) => decodeURIComponent(url.slice(url.indexOf(marker) + marker.length)));
+
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(IMAGES_BUCKET).remove(paths);
+  if (error) console.error("Delete listing images error:", error);
+}
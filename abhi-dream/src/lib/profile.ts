@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+
+/** Same rule the edge functions apply to phone numbers */
+export const phoneSchema = z
+  .string()
+  .trim()
+  .regex(/^[0-9+\s()-]{10,15}$/, "Invalid phone number format");
+
+export const passwordSchema = z.string().min(6, "Password must be at least 6 characters");
+
+export const profileDetailsSchema = z.object({
+  fullName: z.string().trim().min(2, "Full name must be at least 2 characters").max(100),
+  phone: phoneSchema,
+});
+
+export const AVATAR_MAX_BYTES = 2 * 1024 * 1024;
+
+export function validateAvatar(file: File): string | null {
+  if (!file.type.startsWith("image/")) return "Please choose an image file";
+  if (file.size > AVATAR_MAX_BYTES) return "Images must be 2 MB or smaller";
+  return null;
+}
+
+/**
+ * Uploads an avatar into the user's folder, replacing the previous one, and
+ * returns its public URL. The URL changes with every upload so browsers do
+ * not keep showing the cached image.
+ */
+export async function uploadAvatar(userId: string, file: File): Promise<string> {
+  const path = `${userId}/avatar`;
+
+  const { error } = await supabase.storage
+    .from("avatars")
+    .upload(path, file, { upsert: true, contentType: file.type });
+
+  if (error) throw error;
+
+  const { data: { publicUrl } } = supabase.storage.from("avatars").getPublicUrl(path);
+  return `${publicUrl}?v=${Date.now()}`;
+}
+
+export const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
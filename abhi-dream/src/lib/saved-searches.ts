@@ -0,0 +1,110 @@
+import type { Database, Tables, TablesInsert } from "@/integrations/supabase/types";
+import { listingTypeLabels } from "@/lib/listings";
+import { formatCoordinates, toListingSearchParams, type ListingSearchFilters } from "@/lib/listing-search";
+
+type SearchListingsArgs = Database["public"]["Functions"]["search_listings"]["Args"];
+
+/**
+ * A search a user asked to be alerted about. Filter columns mirror the
+ * `search_listings` arguments and NULL means the filter is not set.
+ */
+export type SavedSearch = Tables<"saved_searches">;
+
+export type SavedSearchCriteria = Omit<TablesInsert<"saved_searches">, "id" | "user_id" | "name" | "created_at">;
+
+/** Captures the filters of a `search_listings` call so they can be saved. */
+export function toSavedSearchCriteria(args: SearchListingsArgs): SavedSearchCriteria {
+  return {
+    query: args._query?.trim() || null,
+    listing_types: args._listing_types?.length ? args._listing_types : null,
+    min_price: args._min_price ?? null,
+    max_price: args._max_price ?? null,
+    min_bedrooms: args._min_bedrooms ?? null,
+    min_bathrooms: args._min_bathrooms ?? null,
+    min_area: args._min_area ?? null,
+    max_area: args._max_area ?? null,
+    property_type: args._property_type ?? null,
+    status: args._status ?? null,
+    near_lat: args._near_lat ?? null,
+    near_lng: args._near_lng ?? null,
+    radius_km: args._radius_km ?? null,
+    south: args._south ?? null,
+    west: args._west ?? null,
+    north: args._north ?? null,
+    east: args._east ?? null,
+  };
+}
+
+const isPropertySearch = (search: SavedSearch) =>
+  search.listing_types?.length === 1 && search.listing_types[0] === "property";
+
+const toParam = (value: number | null) => (value == null ? "" : String(value));
+
+/** The page and query string that re-run a saved search. */
+export function savedSearchPath(search: SavedSearch): string {
+  if (!isPropertySearch(search)) {
+    const params = new URLSearchParams();
+    if (search.query) params.set("q", search.query);
+    if (search.listing_types?.length === 1) params.set("type", search.listing_types[0]);
+    const query = params.toString();
+    return query ? `/services?${query}` : "/services";
+  }
+
+  const hasNear = search.near_lat != null && search.near_lng != null && search.radius_km != null;
+  const hasBounds = search.south != null && search.west != null && search.north != null && search.east != null;
+  const filters: ListingSearchFilters = {
+    q: search.query ?? "",
+    min_price: toParam(search.min_price),
+    max_price: toParam(search.max_price),
+    bedrooms: toParam(search.min_bedrooms),
+    bathrooms: toParam(search.min_bathrooms),
+    min_area: toParam(search.min_area),
+    max_area: toParam(search.max_area),
+    property_type: search.property_type ?? "",
+    status: search.status ?? "",
+    near: hasNear ? formatCoordinates([search.near_lat!, search.near_lng!]) : "",
+    radius: hasNear ? toParam(search.radius_km) : "",
+    bounds: hasBounds ? formatCoordinates([search.south!, search.west!, search.north!, search.east!]) : "",
+    sort: "",
+  };
+  const query = toListingSearchParams(filters).toString();
+  return query ? `/?${query}` : "/";
+}
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    maximumFractionDigits: 0,
+  }).format(price);
+
+/** Short human readable labels for the filters a saved search uses. */
+export function describeSavedSearch(search: SavedSearch): string[] {
+  const parts: string[] = [];
+
+  if (search.query) parts.push(`"${search.query}"`);
+  parts.push(
+    search.listing_types?.length
+      ? search.listing_types.map((type) => listingTypeLabels[type] || type).join(", ")
+      : "All listings"
+  );
+  if (search.property_type) parts.push(search.property_type);
+  if (search.status) parts.push(search.status.charAt(0).toUpperCase() + search.status.slice(1));
+
+  if (search.min_price != null && search.max_price != null) {
+    parts.push(`${formatPrice(search.min_price)} – ${formatPrice(search.max_price)}`);
+  } else if (search.min_price != null) {
+    parts.push(`From ${formatPrice(search.min_price)}`);
+  } else if (search.max_price != null) {
+    parts.push(`Up to ${formatPrice(search.max_price)}`);
+  }
+
+  if (search.min_bedrooms != null) parts.push(`${search.min_bedrooms}+ beds`);
+  if (search.min_bathrooms != null) parts.push(`${search.min_bathrooms}+ baths`);
+  if (search.min_area != null) parts.push(`From ${search.min_area} sqft`);
+  if (search.max_area != null) parts.push(`Up to ${search.max_area} sqft`);
+  if (search.radius_km != null) parts.push(`Within ${search.radius_km} km of a point`);
+  if (search.south != null) parts.push("Map area");
+
+  return parts;
+}
@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,9 +9,22 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
 import Navbar from "@/components/Navbar";
-import { Plus, Upload, X, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import InfiniteScrollTrigger from "@/components/InfiniteScrollTrigger";
+import { LISTING_FEED_KEY, useListingFeed } from "@/hooks/use-listing-feed";
+import { MapPin, Plus, Pencil, Trash2 } from "lucide-react";
 import { z } from "zod";
 import { Badge } from "@/components/ui/badge";
+import ImageListEditor, { type ImageItem } from "@/components/ImageListEditor";
+import {
+  PROPERTY_TYPES,
+  backfillListingLocations,
+  deleteListingImages,
+  geocodeListing,
+  needsGeocoding,
+  uploadListingImage,
+  type Listing,
+} from "@/lib/listings";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -35,110 +48,59 @@ const propertySchema = z.object({
   status: z.enum(["available", "sold", "pending"]),
 });
 
-interface Property {
-  id: string;
-  title: string;
-  description: string;
-  price: number;
-  address: string;
-  property_type?: string;
-  status: string;
-  images?: string[];
-  bedrooms?: number;
-  bathrooms?: number;
-  area_sqft?: number;
-}
+const emptyFormData = {
+  title: "",
+  description: "",
+  price: "",
+  address: "",
+  bedrooms: "",
+  bathrooms: "",
+  area_sqft: "",
+  property_type: "House",
+  status: "available",
+};
 
 export default function Admin() {
-  const navigate = useNavigate();
+  const { user, can } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
-  const [userRole, setUserRole] = useState<string | null>(null);
-  const [properties, setProperties] = useState<Property[]>([]);
+  const [isBackfilling, setIsBackfilling] = useState(false);
   const [propertyToDelete, setPropertyToDelete] = useState<string | null>(null);
-  const [formData, setFormData] = useState({
-    title: "",
-    description: "",
-    price: "",
-    address: "",
-    bedrooms: "",
-    bathrooms: "",
-    area_sqft: "",
-    property_type: "House",
-    status: "available",
-  });
-  const [imageFiles, setImageFiles] = useState<File[]>([]);
-  const [imagePreviewUrls, setImagePreviewUrls] = useState<string[]>([]);
-
-  useEffect(() => {
-    checkAccess();
-    loadProperties();
-  }, []);
-
-  const checkAccess = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    
-    if (!session) {
-      toast({
-        variant: "destructive",
-        title: "Access Denied",
-        description: "Please login to access this page",
-      });
-      navigate("/auth");
-      return;
-    }
-
-    const { data: roleData } = await supabase
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", session.user.id)
-      .single();
-
-    if (!roleData || (roleData.role !== "admin" && roleData.role !== "employee")) {
-      toast({
-        variant: "destructive",
-        title: "Access Denied",
-        description: "You don't have permission to access this page",
-      });
-      navigate("/");
-      return;
-    }
-
-    setUserRole(roleData.role);
-  };
-
-  const loadProperties = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("properties")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      setProperties(data || []);
-    } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Failed to load properties",
-      });
-    }
+  const [editingPropertyId, setEditingPropertyId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyFormData);
+  const [images, setImages] = useState<ImageItem[]>([]);
+  const formRef = useRef<HTMLDivElement>(null);
+  const queryClient = useQueryClient();
+  const {
+    listings: properties,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+  } = useListingFeed({ _listing_types: ["property"] }, "Failed to load properties");
+
+  // Refetch every cached listing feed so public pages pick up the change too
+  const refreshProperties = () => {
+    queryClient.invalidateQueries({ queryKey: LISTING_FEED_KEY });
   };
 
   const handleDeleteProperty = async (propertyId: string) => {
     try {
       const { error } = await supabase
-        .from("properties")
+        .from("listings")
         .delete()
         .eq("id", propertyId);
 
       if (error) throw error;
 
+      await deleteListingImages(properties.find((listing) => listing.id === propertyId)?.images ?? []);
+
       toast({
         title: "Success",
         description: "Property deleted successfully",
       });
 
-      loadProperties();
+      if (propertyId === editingPropertyId) resetForm();
+
+      refreshProperties();
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -150,46 +112,35 @@ export default function Admin() {
     }
   };
 
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files) return;
-
-    const newFiles = Array.from(files);
-    setImageFiles(prev => [...prev, ...newFiles]);
-
-    newFiles.forEach(file => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreviewUrls(prev => [...prev, reader.result as string]);
-      };
-      reader.readAsDataURL(file);
+  const startEditing = (property: Listing) => {
+    setEditingPropertyId(property.id);
+    setFormData({
+      title: property.title,
+      description: property.description,
+      price: String(property.price),
+      address: property.address || "",
+      bedrooms: property.bedrooms != null ? String(property.bedrooms) : "",
+      bathrooms: property.bathrooms != null ? String(property.bathrooms) : "",
+      area_sqft: property.area_sqft != null ? String(property.area_sqft) : "",
+      property_type: property.property_type || "House",
+      status: property.status || "available",
     });
+    setImages((property.images || []).map((url) => ({ url })));
+    formRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
-  const removeImage = (index: number) => {
-    setImageFiles(prev => prev.filter((_, i) => i !== index));
-    setImagePreviewUrls(prev => prev.filter((_, i) => i !== index));
+  const resetForm = () => {
+    setEditingPropertyId(null);
+    setFormData(emptyFormData);
+    setImages([]);
   };
 
+  // Uploads newly selected files and returns every image URL in display order
   const uploadImages = async (): Promise<string[]> => {
     const uploadedUrls: string[] = [];
-    
-    for (const file of imageFiles) {
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${Math.random()}.${fileExt}`;
-      const filePath = `${fileName}`;
-
-      const { error: uploadError, data } = await supabase.storage
-        .from('property-images')
-        .upload(filePath, file);
 
-      if (uploadError) throw uploadError;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('property-images')
-        .getPublicUrl(filePath);
-
-      uploadedUrls.push(publicUrl);
+    for (const image of images) {
+      uploadedUrls.push(image.file ? await uploadListingImage(image.file) : image.url);
     }
 
     return uploadedUrls;
@@ -212,49 +163,51 @@ export default function Admin() {
         status: formData.status as "available" | "sold" | "pending",
       });
 
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) throw new Error("Not authenticated");
+      if (!user) throw new Error("Not authenticated");
 
       // Upload images first
-      const imageUrls = imageFiles.length > 0 ? await uploadImages() : [];
+      const imageUrls = await uploadImages();
 
-      const { error } = await supabase.from("properties").insert([{
+      const propertyData = {
         title: validated.title,
         description: validated.description,
         price: validated.price,
         address: validated.address,
-        bedrooms: validated.bedrooms,
-        bathrooms: validated.bathrooms,
-        area_sqft: validated.area_sqft,
+        bedrooms: validated.bedrooms ?? null,
+        bathrooms: validated.bathrooms ?? null,
+        area_sqft: validated.area_sqft ?? null,
         property_type: validated.property_type,
         status: validated.status,
-        created_by: session.user.id,
         images: imageUrls,
-      }]);
+      };
+
+      // Update in place so enquiries referencing this property id stay linked
+      const { data: saved, error } = editingPropertyId
+        ? await supabase.from("listings").update(propertyData).eq("id", editingPropertyId).select("id").single()
+        : await supabase.from("listings").insert([{ ...propertyData, listing_type: "property", created_by: user.id }]).select("id").single();
 
       if (error) throw error;
 
+      const previous = properties.find((listing) => listing.id === editingPropertyId);
+
+      // Storage keeps every upload, so drop the images taken off the listing
+      await deleteListingImages((previous?.images ?? []).filter((url) => !imageUrls.includes(url)));
+
+      // Public geocoding is rate limited, so only look up addresses that changed
+      if (needsGeocoding(previous, propertyData.address) && !(await geocodeListing(saved.id))) {
+        toast({
+          title: "Map location not updated",
+          description: "The property was saved but its address could not be placed on the map.",
+        });
+      }
+
       toast({
         title: "Success!",
-        description: "Property created successfully",
+        description: editingPropertyId ? "Property updated successfully" : "Property created successfully",
       });
 
-      // Reset form
-      setFormData({
-        title: "",
-        description: "",
-        price: "",
-        address: "",
-        bedrooms: "",
-        bathrooms: "",
-        area_sqft: "",
-        property_type: "House",
-        status: "available",
-      });
-      setImageFiles([]);
-      setImagePreviewUrls([]);
-      
-      loadProperties();
+      resetForm();
+      refreshProperties();
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         toast({
@@ -266,7 +219,7 @@ export default function Admin() {
         toast({
           variant: "destructive",
           title: "Error",
-          description: error.message || "Failed to create property",
+          description: error.message || (editingPropertyId ? "Failed to update property" : "Failed to create property"),
         });
       }
     } finally {
@@ -274,16 +227,29 @@ export default function Admin() {
     }
   };
 
-  if (!userRole) {
-    return (
-      <div className="min-h-screen bg-background">
-        <Navbar />
-        <div className="container mx-auto px-4 py-8">
-          <p>Checking permissions...</p>
-        </div>
-      </div>
-    );
-  }
+  // Listings saved before geocoding existed (or whose lookup failed) are not on the map yet
+  const handleBackfill = async () => {
+    setIsBackfilling(true);
+    try {
+      const { geocoded, remaining } = await backfillListingLocations();
+      refreshProperties();
+      toast({
+        title: "Map locations updated",
+        description: remaining
+          ? `${geocoded} listings placed, ${remaining} still to go. Run it again to continue.`
+          : `${geocoded} listings placed on the map.`,
+      });
+    } catch (error) {
+      console.error("Backfill error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update map locations",
+      });
+    } finally {
+      setIsBackfilling(false);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -292,8 +258,12 @@ export default function Admin() {
         {/* Existing Properties */}
         {properties.length > 0 && (
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle>Existing Properties</CardTitle>
+              <Button variant="outline" size="sm" onClick={handleBackfill} disabled={isBackfilling}>
+                <MapPin className="w-4 h-4 mr-2" />
+                {isBackfilling ? "Placing listings..." : "Place Missing on Map"}
+              </Button>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -323,206 +293,198 @@ export default function Admin() {
                         <Badge variant="outline">{property.property_type}</Badge>
                       )}
                     </CardContent>
-                    <CardContent className="pt-0">
+                    <CardContent className="pt-0 flex gap-2">
                       <Button
-                        variant="destructive"
+                        variant="outline"
                         size="sm"
-                        className="w-full"
-                        onClick={() => setPropertyToDelete(property.id)}
+                        className="flex-1"
+                        onClick={() => startEditing(property)}
                       >
-                        <Trash2 className="w-4 h-4 mr-2" />
-                        Delete Property
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Edit
                       </Button>
+                      {can("listings.delete") && (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          className="flex-1"
+                          onClick={() => setPropertyToDelete(property.id)}
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </Button>
+                      )}
                     </CardContent>
                   </Card>
                 ))}
               </div>
+              <InfiniteScrollTrigger
+                hasMore={hasNextPage}
+                isLoading={isFetchingNextPage}
+                onLoadMore={fetchNextPage}
+              />
             </CardContent>
           </Card>
         )}
 
-        {/* Create New Property */}
-        <Card className="max-w-3xl mx-auto">
-          <CardHeader>
-            <CardTitle className="flex items-center text-2xl">
-              <Plus className="w-6 h-6 mr-2 text-primary" />
-              Create New Property
-            </CardTitle>
-            <CardDescription>
-              Add a new property listing to the database
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="title">Property Title *</Label>
-                <Input
-                  id="title"
-                  value={formData.title}
-                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                  placeholder="Luxury Villa in Downtown"
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Description *</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Detailed description of the property..."
-                  rows={4}
-                  required
-                />
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Create / Edit Property */}
+        <div ref={formRef}>
+          <Card className="max-w-3xl mx-auto">
+            <CardHeader>
+              <CardTitle className="flex items-center text-2xl">
+                {editingPropertyId ? (
+                  <Pencil className="w-6 h-6 mr-2 text-primary" />
+                ) : (
+                  <Plus className="w-6 h-6 mr-2 text-primary" />
+                )}
+                {editingPropertyId ? "Edit Property" : "Create New Property"}
+              </CardTitle>
+              <CardDescription>
+                {editingPropertyId
+                  ? "Update the listing in place. Existing enquiries stay linked to it."
+                  : "Add a new property listing to the database"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-6">
                 <div className="space-y-2">
-                  <Label htmlFor="price">Price (₹) *</Label>
+                  <Label htmlFor="title">Property Title *</Label>
                   <Input
-                    id="price"
-                    type="number"
-                    value={formData.price}
-                    onChange={(e) => setFormData({ ...formData, price: e.target.value })}
-                    placeholder="5000000"
+                    id="title"
+                    value={formData.title}
+                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                    placeholder="Luxury Villa in Downtown"
                     required
                   />
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="property_type">Property Type</Label>
-                  <Select 
-                    value={formData.property_type}
-                    onValueChange={(value) => setFormData({ ...formData, property_type: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="House">House</SelectItem>
-                      <SelectItem value="Apartment">Apartment</SelectItem>
-                      <SelectItem value="Villa">Villa</SelectItem>
-                      <SelectItem value="Land">Land</SelectItem>
-                      <SelectItem value="Commercial">Commercial</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label htmlFor="description">Description *</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="Detailed description of the property..."
+                    rows={4}
+                    required
+                  />
                 </div>
-              </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="address">Address *</Label>
-                <Input
-                  id="address"
-                  value={formData.address}
-                  onChange={(e) => setFormData({ ...formData, address: e.target.value })}
-                  placeholder="123 Main Street, City, State"
-                  required
-                />
-              </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="price">Price (₹) *</Label>
+                    <Input
+                      id="price"
+                      type="number"
+                      value={formData.price}
+                      onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                      placeholder="5000000"
+                      required
+                    />
+                  </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="bedrooms">Bedrooms</Label>
-                  <Input
-                    id="bedrooms"
-                    type="number"
-                    value={formData.bedrooms}
-                    onChange={(e) => setFormData({ ...formData, bedrooms: e.target.value })}
-                    placeholder="3"
-                  />
+                  <div className="space-y-2">
+                    <Label htmlFor="property_type">Property Type</Label>
+                    <Select 
+                      value={formData.property_type}
+                      onValueChange={(value) => setFormData({ ...formData, property_type: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PROPERTY_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="bathrooms">Bathrooms</Label>
+                  <Label htmlFor="address">Address *</Label>
                   <Input
-                    id="bathrooms"
-                    type="number"
-                    value={formData.bathrooms}
-                    onChange={(e) => setFormData({ ...formData, bathrooms: e.target.value })}
-                    placeholder="2"
+                    id="address"
+                    value={formData.address}
+                    onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                    placeholder="123 Main Street, City, State"
+                    required
                   />
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="area_sqft">Area (sqft)</Label>
-                  <Input
-                    id="area_sqft"
-                    type="number"
-                    value={formData.area_sqft}
-                    onChange={(e) => setFormData({ ...formData, area_sqft: e.target.value })}
-                    placeholder="2000"
-                  />
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="bedrooms">Bedrooms</Label>
+                    <Input
+                      id="bedrooms"
+                      type="number"
+                      value={formData.bedrooms}
+                      onChange={(e) => setFormData({ ...formData, bedrooms: e.target.value })}
+                      placeholder="3"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="bathrooms">Bathrooms</Label>
+                    <Input
+                      id="bathrooms"
+                      type="number"
+                      value={formData.bathrooms}
+                      onChange={(e) => setFormData({ ...formData, bathrooms: e.target.value })}
+                      placeholder="2"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="area_sqft">Area (sqft)</Label>
+                    <Input
+                      id="area_sqft"
+                      type="number"
+                      value={formData.area_sqft}
+                      onChange={(e) => setFormData({ ...formData, area_sqft: e.target.value })}
+                      placeholder="2000"
+                    />
+                  </div>
                 </div>
-              </div>
 
-              <div className="space-y-2">
-                <Label>Property Images</Label>
-                <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary transition-colors">
-                  <input
-                    type="file"
-                    id="images"
-                    multiple
-                    accept="image/*"
-                    onChange={handleImageSelect}
-                    className="hidden"
-                  />
-                  <label htmlFor="images" className="cursor-pointer">
-                    <Upload className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
-                    <p className="text-sm text-muted-foreground">
-                      Click to upload images or drag and drop
-                    </p>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      PNG, JPG, WEBP up to 10MB
-                    </p>
-                  </label>
+                <div className="space-y-2">
+                  <Label>Property Images</Label>
+                  <ImageListEditor inputId="images" images={images} onChange={setImages} />
                 </div>
-                
-                {imagePreviewUrls.length > 0 && (
-                  <div className="grid grid-cols-3 gap-4 mt-4">
-                    {imagePreviewUrls.map((url, index) => (
-                      <div key={index} className="relative group">
-                        <img
-                          src={url}
-                          alt={`Preview ${index + 1}`}
-                          className="w-full h-32 object-cover rounded-lg"
-                        />
-                        <button
-                          type="button"
-                          onClick={() => removeImage(index)}
-                          className="absolute top-2 right-2 w-6 h-6 bg-destructive text-destructive-foreground rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
-                        >
-                          <X className="w-4 h-4" />
-                        </button>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="status">Status</Label>
-                <Select 
-                  value={formData.status}
-                  onValueChange={(value) => setFormData({ ...formData, status: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="available">Available</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="sold">Sold</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="status">Status</Label>
+                  <Select 
+                    value={formData.status}
+                    onValueChange={(value) => setFormData({ ...formData, status: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="available">Available</SelectItem>
+                      <SelectItem value="pending">Pending</SelectItem>
+                      <SelectItem value="sold">Sold</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <Button type="submit" className="w-full" size="lg" disabled={isLoading}>
-                {isLoading ? "Creating Property..." : "Create Property"}
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
+                <div className="flex gap-2">
+                  <Button type="submit" className="flex-1" size="lg" disabled={isLoading}>
+                    {editingPropertyId
+                      ? isLoading ? "Saving Changes..." : "Save Changes"
+                      : isLoading ? "Creating Property..." : "Create Property"}
+                  </Button>
+                  {editingPropertyId && (
+                    <Button type="button" variant="outline" size="lg" onClick={resetForm} disabled={isLoading}>
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
       </div>
 
       {/* Delete Confirmation Dialog */}
@@ -0,0 +1,385 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  invokeFunction,
+  USERS_PAGE_SIZE,
+  type ApiRequest,
+  type ManagedUser,
+} from "@/integrations/api/client";
+import { toast } from "@/hooks/use-toast";
+import Navbar from "@/components/Navbar";
+import { useAuth } from "@/hooks/use-auth";
+import { Calendar, Mail, Phone, Search, ShieldCheck, UserPlus, Users } from "lucide-react";
+
+type AppRole = NonNullable<ManagedUser["role"]>;
+type InviteRole = Extract<ApiRequest<"manage-users">, { action: "invite" }>["role"];
+
+const roleLabels: Record<AppRole, string> = {
+  admin: "Admin",
+  employee: "Employee",
+  user: "Customer",
+};
+
+const emptyInvite = {
+  full_name: "",
+  email: "",
+  phone: "",
+  role: "employee" as InviteRole,
+};
+
+export default function AdminUsers() {
+  const { user } = useAuth();
+  const currentUserId = user?.id ?? null;
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [userToToggle, setUserToToggle] = useState<ManagedUser | null>(null);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [invite, setInvite] = useState(emptyInvite);
+  const [isInviting, setIsInviting] = useState(false);
+
+  const loadUsers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await invokeFunction("manage-users", {
+        action: "list",
+        search: search || undefined,
+        page,
+      });
+      if ("users" in response) {
+        setUsers(response.users);
+        setTotal(response.total);
+      }
+    } catch (error) {
+      console.error("Load users error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load users",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, search]);
+
+  useEffect(() => {
+    if (currentUserId) loadUsers();
+  }, [currentUserId, loadUsers]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(0);
+    setSearch(searchInput.trim());
+  };
+
+  const runAction = async (userId: string, body: ApiRequest<"manage-users">, title: string) => {
+    setBusyUserId(userId);
+    try {
+      const response = await invokeFunction("manage-users", body);
+      toast({
+        title,
+        description: "message" in response ? response.message : undefined,
+      });
+      loadUsers();
+    } catch (error) {
+      console.error("Manage user error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update user",
+      });
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleRoleChange = (user: ManagedUser, role: AppRole) => {
+    if (role === user.role) return;
+    runAction(user.id, { action: "set_role", user_id: user.id, role }, "Role Updated");
+  };
+
+  const handleToggleDisabled = () => {
+    if (!userToToggle) return;
+    const disabled = !userToToggle.disabled;
+    runAction(
+      userToToggle.id,
+      { action: "set_disabled", user_id: userToToggle.id, disabled },
+      disabled ? "Account Disabled" : "Account Enabled"
+    );
+    setUserToToggle(null);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsInviting(true);
+    try {
+      const response = await invokeFunction("manage-users", {
+        action: "invite",
+        full_name: invite.full_name,
+        email: invite.email,
+        phone: invite.phone.trim() || undefined,
+        role: invite.role,
+      });
+      toast({
+        title: "Invitation Sent",
+        description: "message" in response ? response.message : undefined,
+      });
+      setIsInviteOpen(false);
+      setInvite(emptyInvite);
+      loadUsers();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Invite failed",
+        description: error instanceof Error ? error.message : "Failed to send invitation",
+      });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / USERS_PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+              <CardTitle className="flex items-center text-2xl">
+                <Users className="w-6 h-6 mr-2 text-primary" />
+                Manage Users
+              </CardTitle>
+              <Button onClick={() => setIsInviteOpen(true)}>
+                <UserPlus className="w-4 h-4 mr-2" />
+                Invite Staff
+              </Button>
+            </div>
+            <form onSubmit={handleSearch} className="flex gap-2 pt-2">
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search by name or email"
+                maxLength={100}
+                className="md:max-w-sm"
+              />
+              <Button type="submit" variant="outline">
+                <Search className="w-4 h-4" />
+              </Button>
+            </form>
+          </CardHeader>
+        </Card>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Loading users...</p>
+          </div>
+        ) : users.length === 0 ? (
+          <div className="text-center py-12">
+            <Users className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+            <p className="text-muted-foreground">{search ? "No users match your search" : "No users yet"}</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4">
+              {users.map((user) => {
+                const isSelf = user.id === currentUserId;
+                const isBusy = busyUserId === user.id;
+                return (
+                  <Card key={user.id} className={user.disabled ? "opacity-60" : undefined}>
+                    <CardContent className="pt-6">
+                      <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-4">
+                        <div className="space-y-2 text-sm">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <h3 className="font-semibold text-lg">{user.full_name || "Unnamed user"}</h3>
+                            {isSelf && <Badge variant="outline">You</Badge>}
+                            {user.disabled && <Badge variant="destructive">Disabled</Badge>}
+                            {user.invited_at && !user.email_confirmed && <Badge variant="secondary">Invite pending</Badge>}
+                          </div>
+                          <div className="flex items-center">
+                            <Mail className="w-4 h-4 mr-2 text-muted-foreground" />
+                            <a href={`mailto:${user.email}`} className="text-primary hover:underline">
+                              {user.email}
+                            </a>
+                          </div>
+                          {user.phone && (
+                            <div className="flex items-center">
+                              <Phone className="w-4 h-4 mr-2 text-muted-foreground" />
+                              {user.phone}
+                            </div>
+                          )}
+                          {user.created_at && (
+                            <p className="text-muted-foreground flex items-center">
+                              <Calendar className="w-3 h-3 mr-1" />
+                              Joined {formatDate(user.created_at)}
+                              {user.last_sign_in_at && ` · Last seen ${formatDate(user.last_sign_in_at)}`}
+                            </p>
+                          )}
+                        </div>
+
+                        <div className="flex flex-col sm:flex-row gap-2 md:items-center">
+                          <div className="flex items-center gap-2">
+                            <ShieldCheck className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                            <Select
+                              value={user.role ?? undefined}
+                              onValueChange={(value) => handleRoleChange(user, value as AppRole)}
+                              disabled={isSelf || isBusy}
+                            >
+                              <SelectTrigger className="h-9 w-full sm:w-40">
+                                <SelectValue placeholder="No role" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(Object.keys(roleLabels) as AppRole[]).map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {roleLabels[role]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant={user.disabled ? "outline" : "destructive"}
+                            disabled={isSelf || isBusy}
+                            onClick={() => setUserToToggle(user)}
+                          >
+                            {user.disabled ? "Enable" : "Disable"}
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+
+            {pageCount > 1 && (
+              <div className="flex items-center justify-center gap-4 mt-6">
+                <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {page + 1} of {pageCount}
+                </span>
+                <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite Staff</DialogTitle>
+            <DialogDescription>
+              They will get an email with a link to set their password.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleInvite} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-name">Full Name</Label>
+              <Input
+                id="invite-name"
+                value={invite.full_name}
+                onChange={(e) => setInvite({ ...invite, full_name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={invite.email}
+                onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-phone">Phone (optional)</Label>
+              <Input
+                id="invite-phone"
+                type="tel"
+                value={invite.phone}
+                onChange={(e) => setInvite({ ...invite, phone: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={invite.role} onValueChange={(value) => setInvite({ ...invite, role: value as InviteRole })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="employee">{roleLabels.employee}</SelectItem>
+                  <SelectItem value="admin">{roleLabels.admin}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" className="w-full" disabled={isInviting}>
+              {isInviting ? "Sending..." : "Send Invitation"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!userToToggle} onOpenChange={(open) => !open && setUserToToggle(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{userToToggle?.disabled ? "Enable account?" : "Disable account?"}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {userToToggle?.disabled
+                ? `${userToToggle?.email} will be able to log in again.`
+                : `${userToToggle?.email} will not be able to log in. Anyone already signed in is logged out within the hour, and their open enquiries go back to the unassigned queue.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleToggleDisabled}>
+              {userToToggle?.disabled ? "Enable" : "Disable"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
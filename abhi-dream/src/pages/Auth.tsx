@@ -1,20 +1,29 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
-import { Building2 } from "lucide-react";
+import AuthLayout from "@/components/AuthLayout";
+import ResendVerificationButton from "@/components/ResendVerificationButton";
+import {
+  EMAIL_CONFIRMED_PATH,
+  authRedirectUrl,
+  describeAuthError,
+  isEmailNotConfirmed,
+} from "@/lib/auth-flows";
+import { passwordSchema, phoneSchema } from "@/lib/profile";
+import { AlertCircle, MailCheck } from "lucide-react";
 import { z } from "zod";
 
 const signUpSchema = z.object({
   email: z.string().email("Invalid email address"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: passwordSchema,
   fullName: z.string().min(2, "Full name must be at least 2 characters"),
-  phone: z.string().min(10, "Phone number must be at least 10 digits"),
+  phone: phoneSchema,
 });
 
 const loginSchema = z.object({
@@ -24,7 +33,13 @@ const loginSchema = z.object({
 
 export default function Auth() {
   const navigate = useNavigate();
+  const location = useLocation();
+  // Set by the route guards when they send someone here to log in
+  const redirectTo = (location.state as { from?: string } | null)?.from ?? "/";
   const [isLoading, setIsLoading] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+  // Set when auth is waiting for this address to be confirmed
+  const [unconfirmedEmail, setUnconfirmedEmail] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     email: "",
     password: "",
@@ -32,8 +47,14 @@ export default function Auth() {
     phone: "",
   });
 
+  const clearMessages = () => {
+    setAuthError(null);
+    setUnconfirmedEmail(null);
+  };
+
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
+    clearMessages();
     setIsLoading(true);
 
     try {
@@ -47,12 +68,18 @@ export default function Auth() {
             full_name: validated.fullName,
             phone: validated.phone,
           },
-          emailRedirectTo: `${window.location.origin}/`,
+          emailRedirectTo: authRedirectUrl(EMAIL_CONFIRMED_PATH),
         },
       });
 
       if (error) throw error;
 
+      // No session means the project wants the email confirmed first
+      if (data.user && !data.session) {
+        setUnconfirmedEmail(validated.email);
+        return;
+      }
+
       if (data.user) {
         toast({
           title: "Account created!",
@@ -60,7 +87,7 @@ export default function Auth() {
         });
         navigate("/");
       }
-    } catch (error: any) {
+    } catch (error) {
       if (error instanceof z.ZodError) {
         toast({
           variant: "destructive",
@@ -68,11 +95,7 @@ export default function Auth() {
           description: error.errors[0].message,
         });
       } else {
-        toast({
-          variant: "destructive",
-          title: "Sign up failed",
-          description: error.message || "An error occurred during sign up",
-        });
+        setAuthError(describeAuthError(error, "An error occurred during sign up"));
       }
     } finally {
       setIsLoading(false);
@@ -81,6 +104,7 @@ export default function Auth() {
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
+    clearMessages();
     setIsLoading(true);
 
     try {
@@ -101,21 +125,19 @@ export default function Auth() {
           title: "Welcome back!",
           description: "You've successfully logged in.",
         });
-        navigate("/");
+        navigate(redirectTo, { replace: true });
       }
-    } catch (error: any) {
+    } catch (error) {
       if (error instanceof z.ZodError) {
         toast({
           variant: "destructive",
           title: "Validation Error",
           description: error.errors[0].message,
         });
+      } else if (isEmailNotConfirmed(error)) {
+        setUnconfirmedEmail(formData.email.trim());
       } else {
-        toast({
-          variant: "destructive",
-          title: "Login failed",
-          description: error.message || "Invalid email or password",
-        });
+        setAuthError(describeAuthError(error, "Invalid email or password"));
       }
     } finally {
       setIsLoading(false);
@@ -148,125 +170,133 @@ export default function Auth() {
   };
 
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-background to-accent/10 p-4">
-      <Card className="w-full max-w-md shadow-2xl">
-        <CardHeader className="space-y-1 text-center">
-          <div className="flex justify-center mb-4">
-            <div className="p-3 bg-primary rounded-2xl">
-              <Building2 className="w-8 h-8 text-primary-foreground" />
-            </div>
-          </div>
-          <CardTitle className="text-3xl font-bold">Elite Properties</CardTitle>
-          <CardDescription>Find your dream home today</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <Tabs defaultValue="login" className="w-full">
-            <TabsList className="grid w-full grid-cols-2 mb-6">
-              <TabsTrigger value="login">Login</TabsTrigger>
-              <TabsTrigger value="signup">Sign Up</TabsTrigger>
-            </TabsList>
+    <AuthLayout title="Elite Properties" description="Find your dream home today">
+      {authError && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{authError}</AlertDescription>
+        </Alert>
+      )}
+      {unconfirmedEmail && (
+        <Alert className="mb-6">
+          <MailCheck className="h-4 w-4" />
+          <AlertTitle>Confirm your email</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <p>We sent a confirmation link to {unconfirmedEmail}. Follow it, then log in.</p>
+            <ResendVerificationButton email={unconfirmedEmail} />
+          </AlertDescription>
+        </Alert>
+      )}
+      <Tabs defaultValue="login" className="w-full" onValueChange={clearMessages}>
+        <TabsList className="grid w-full grid-cols-2 mb-6">
+          <TabsTrigger value="login">Login</TabsTrigger>
+          <TabsTrigger value="signup">Sign Up</TabsTrigger>
+        </TabsList>
 
-            <TabsContent value="login">
-              <form onSubmit={handleLogin} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="login-email">Email</Label>
-                  <Input
-                    id="login-email"
-                    type="email"
-                    placeholder="you@example.com"
-                    value={formData.email}
-                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="login-password">Password</Label>
-                  <Input
-                    id="login-password"
-                    type="password"
-                    placeholder="••••••••"
-                    value={formData.password}
-                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                    required
-                  />
-                </div>
-                <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? "Logging in..." : "Login"}
-                </Button>
-                <div className="relative my-4">
-                  <div className="absolute inset-0 flex items-center">
-                    <span className="w-full border-t" />
-                  </div>
-                  <div className="relative flex justify-center text-xs uppercase">
-                    <span className="bg-background px-2 text-muted-foreground">Or</span>
-                  </div>
-                </div>
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  className="w-full" 
-                  onClick={handleGuestLogin}
-                  disabled={isLoading}
-                >
-                  {isLoading ? "Loading..." : "Continue as Guest"}
-                </Button>
-              </form>
-            </TabsContent>
+        <TabsContent value="login">
+          <form onSubmit={handleLogin} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="login-email">Email</Label>
+              <Input
+                id="login-email"
+                type="email"
+                placeholder="you@example.com"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="login-password">Password</Label>
+                <Link to="/forgot-password" className="text-sm text-primary hover:underline">
+                  Forgot password?
+                </Link>
+              </div>
+              <Input
+                id="login-password"
+                type="password"
+                placeholder="••••••••"
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Logging in..." : "Login"}
+            </Button>
+            <div className="relative my-4">
+              <div className="absolute inset-0 flex items-center">
+                <span className="w-full border-t" />
+              </div>
+              <div className="relative flex justify-center text-xs uppercase">
+                <span className="bg-background px-2 text-muted-foreground">Or</span>
+              </div>
+            </div>
+            <Button 
+              type="button" 
+              variant="outline" 
+              className="w-full" 
+              onClick={handleGuestLogin}
+              disabled={isLoading}
+            >
+              {isLoading ? "Loading..." : "Continue as Guest"}
+            </Button>
+          </form>
+        </TabsContent>
 
-            <TabsContent value="signup">
-              <form onSubmit={handleSignUp} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="signup-name">Full Name</Label>
-                  <Input
-                    id="signup-name"
-                    type="text"
-                    placeholder="John Doe"
-                    value={formData.fullName}
-                    onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="signup-email">Email</Label>
-                  <Input
-                    id="signup-email"
-                    type="email"
-                    placeholder="you@example.com"
-                    value={formData.email}
-                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="signup-phone">Phone</Label>
-                  <Input
-                    id="signup-phone"
-                    type="tel"
-                    placeholder="9392747366"
-                    value={formData.phone}
-                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="signup-password">Password</Label>
-                  <Input
-                    id="signup-password"
-                    type="password"
-                    placeholder="••••••••"
-                    value={formData.password}
-                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                    required
-                  />
-                </div>
-                <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? "Creating account..." : "Sign Up"}
-                </Button>
-              </form>
-            </TabsContent>
-          </Tabs>
-        </CardContent>
-      </Card>
-    </div>
+        <TabsContent value="signup">
+          <form onSubmit={handleSignUp} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="signup-name">Full Name</Label>
+              <Input
+                id="signup-name"
+                type="text"
+                placeholder="John Doe"
+                value={formData.fullName}
+                onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="signup-email">Email</Label>
+              <Input
+                id="signup-email"
+                type="email"
+                placeholder="you@example.com"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="signup-phone">Phone</Label>
+              <Input
+                id="signup-phone"
+                type="tel"
+                placeholder="9392747366"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="signup-password">Password</Label>
+              <Input
+                id="signup-password"
+                type="password"
+                placeholder="••••••••"
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Creating account..." : "Sign Up"}
+            </Button>
+          </form>
+        </TabsContent>
+      </Tabs>
+    </AuthLayout>
   );
 }
\ No newline at end of file
@@ -1,10 +1,9 @@
 import { useState, useEffect, useRef } from "react";
-import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { supabase } from "@/integrations/supabase/client";
+import { ApiError, streamFunction } from "@/integrations/api/client";
 import { toast } from "@/hooks/use-toast";
 import Navbar from "@/components/Navbar";
 import { MessageSquare, Send } from "lucide-react";
@@ -15,34 +14,17 @@ interface Message {
 }
 
 export default function Chat() {
-  const navigate = useNavigate();
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    checkAuth();
-  }, []);
-
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
   }, [messages]);
 
-  const checkAuth = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session) {
-      toast({
-        variant: "destructive",
-        title: "Access Denied",
-        description: "Please login to use the chat",
-      });
-      navigate("/auth");
-    }
-  };
-
   const sendMessage = async () => {
     if (!input.trim() || isLoading) return;
 
@@ -52,45 +34,11 @@ export default function Chat() {
     setIsLoading(true);
 
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) throw new Error("Not authenticated");
-
-      const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
-      
-      const resp = await fetch(CHAT_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({ 
-          messages: [...messages, { role: "user", content: userMessage }] 
-        }),
+      const body = await streamFunction("chat", {
+        messages: [...messages, { role: "user", content: userMessage }]
       });
 
-      if (resp.status === 429) {
-        toast({
-          variant: "destructive",
-          title: "Rate Limit",
-          description: "Too many requests. Please try again later.",
-        });
-        return;
-      }
-
-      if (resp.status === 402) {
-        toast({
-          variant: "destructive",
-          title: "Payment Required",
-          description: "AI usage credits exhausted. Please add credits.",
-        });
-        return;
-      }
-
-      if (!resp.ok || !resp.body) {
-        throw new Error("Failed to get response");
-      }
-
-      const reader = resp.body.getReader();
+      const reader = body.getReader();
       const decoder = new TextDecoder();
       let assistantMessage = "";
       let textBuffer = "";
@@ -140,13 +88,21 @@ export default function Chat() {
           }
         }
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Chat error:", error);
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Failed to get response from AI",
-      });
+      if (error instanceof ApiError && (error.status === 429 || error.status === 402)) {
+        toast({
+          variant: "destructive",
+          title: error.status === 429 ? "Rate Limit" : "Payment Required",
+          description: error.message,
+        });
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to get response from AI",
+        });
+      }
       setMessages(prev => prev.slice(0, -1));
     } finally {
       setIsLoading(false);
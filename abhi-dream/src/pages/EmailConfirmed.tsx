@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import AuthLayout from "@/components/AuthLayout";
+import ResendVerificationButton from "@/components/ResendVerificationButton";
+import { useAuth } from "@/hooks/use-auth";
+import { readAuthRedirectError } from "@/lib/auth-flows";
+import { AlertCircle, CheckCircle2 } from "lucide-react";
+
+/** Where the confirmation link in the sign-up email lands */
+export default function EmailConfirmed() {
+  const { user, isGuest, isLoading } = useAuth();
+  const [linkError] = useState(readAuthRedirectError);
+  const [email, setEmail] = useState("");
+
+  if (linkError) {
+    return (
+      <AuthLayout title="Confirm Your Email">
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>We couldn't confirm your email</AlertTitle>
+          <AlertDescription>{linkError} Enter your email to get a new link.</AlertDescription>
+        </Alert>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="confirm-email">Email</Label>
+            <Input
+              id="confirm-email"
+              type="email"
+              placeholder="you@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          <ResendVerificationButton email={email.trim()} />
+          <p className="text-center text-sm text-muted-foreground">
+            Already confirmed?{" "}
+            <Link to="/auth" className="text-primary hover:underline">
+              Log in
+            </Link>
+          </p>
+        </div>
+      </AuthLayout>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <AuthLayout title="Confirm Your Email">
+        <p className="text-center text-muted-foreground">Confirming your email...</p>
+      </AuthLayout>
+    );
+  }
+
+  const isSignedIn = !!user && !isGuest;
+
+  return (
+    <AuthLayout title="Email Confirmed">
+      <Alert className="mb-6">
+        <CheckCircle2 className="h-4 w-4" />
+        <AlertTitle>You're all set</AlertTitle>
+        <AlertDescription>
+          {isSignedIn
+            ? "Your email is confirmed and you're logged in."
+            : "Your email is confirmed. Log in to start browsing and sending enquiries."}
+        </AlertDescription>
+      </Alert>
+      <Button asChild className="w-full">
+        <Link to={isSignedIn ? "/" : "/auth"}>{isSignedIn ? "Start Browsing" : "Log In"}</Link>
+      </Button>
+    </AuthLayout>
+  );
+}
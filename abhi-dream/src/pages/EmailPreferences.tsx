@@ -0,0 +1,136 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+import Navbar from "@/components/Navbar";
+import { useAuth } from "@/hooks/use-auth";
+import { Mail } from "lucide-react";
+
+type PreferenceKey = keyof Pick<Tables<"email_preferences">, "enquiry_updates" | "new_messages" | "new_enquiries">;
+
+type Preferences = Record<PreferenceKey, boolean>;
+
+// Users without a saved row get every email
+const DEFAULT_PREFERENCES: Preferences = {
+  enquiry_updates: true,
+  new_messages: true,
+  new_enquiries: true,
+};
+
+const preferenceOptions: { key: PreferenceKey; label: string; description: string; staffOnly?: boolean }[] = [
+  {
+    key: "enquiry_updates",
+    label: "Enquiry updates",
+    description: "Confirmation when you send an enquiry and any change to its status.",
+  },
+  {
+    key: "new_messages",
+    label: "New messages",
+    description: "Replies in your enquiry conversations.",
+  },
+  {
+    key: "new_enquiries",
+    label: "New enquiries",
+    description: "New customer enquiries assigned to you, or to anyone when unassigned.",
+    staffOnly: true,
+  },
+];
+
+export default function EmailPreferences() {
+  const { user, can } = useAuth();
+  const userId = user?.id ?? null;
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // RequireAuth only renders this page for signed-in users
+  useEffect(() => {
+    if (userId) loadPreferences(userId);
+  }, [userId]);
+
+  const loadPreferences = async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("email_preferences")
+        .select("enquiry_updates, new_messages, new_enquiries")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) setPreferences(data);
+    } catch (error) {
+      console.error("Load email preferences error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load email preferences",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updatePreference = async (key: PreferenceKey, value: boolean) => {
+    if (!userId) return;
+
+    const previous = preferences;
+    const next = { ...preferences, [key]: value };
+    setPreferences(next);
+
+    const { error } = await supabase
+      .from("email_preferences")
+      .upsert({ user_id: userId, ...next });
+
+    if (error) {
+      console.error("Update email preferences error:", error);
+      setPreferences(previous);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update email preferences",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-2xl">
+              <Mail className="w-6 h-6 mr-2 text-primary" />
+              Email Preferences
+            </CardTitle>
+            <CardDescription>
+              Choose which emails you receive. In-app notifications are not affected.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {isLoading ? (
+              <p className="text-muted-foreground">Loading preferences...</p>
+            ) : (
+              preferenceOptions
+                .filter((option) => !option.staffOnly || can("enquiries.handle"))
+                .map((option) => (
+                  <div key={option.key} className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor={option.key}>{option.label}</Label>
+                      <p className="text-sm text-muted-foreground">{option.description}</p>
+                    </div>
+                    <Switch
+                      id={option.key}
+                      checked={preferences[option.key]}
+                      onCheckedChange={(checked) => updatePreference(option.key, checked)}
+                    />
+                  </div>
+                ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,26 @@
-import { useState, useEffect } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
+import { invokeFunction } from "@/integrations/api/client";
 import { toast } from "@/hooks/use-toast";
 import Navbar from "@/components/Navbar";
-import { Inbox, Mail, Phone, MessageSquare, Calendar, CheckCircle, XCircle } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { listingTypeLabels } from "@/lib/listings";
+import {
+  REASON_REQUIRED_STATUSES,
+  enquiryStatusVariant,
+  formatEnquiryStatus,
+  getStaffTransitions,
+  type StaffEnquiryStatus,
+} from "@/lib/enquiry-status";
+import { Inbox, Mail, Phone, MessageSquare, Calendar, CheckCircle, CircleArrowRight, UserCheck, XCircle } from "lucide-react";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -20,90 +34,82 @@ import {
 
 interface Enquiry {
   id: string;
-  service_id: string;
-  service_type: string;
+  listing_id: string | null;
   user_id: string;
   user_name: string;
   user_email: string;
   user_phone: string;
   message: string | null;
   status: string;
+  assigned_to: string | null;
   created_at: string;
   updated_at: string;
-  services?: {
-    title?: string;
-  };
+  listings: {
+    title: string;
+    listing_type: string;
+  } | null;
 }
 
+type StaffMember = Database["public"]["Functions"]["list_staff"]["Returns"][number];
+
+type AssignmentFilter = "all" | "mine" | "unassigned";
+
+// Select items cannot have an empty value
+const UNASSIGNED = "unassigned";
+
+const matchesAssignment = (filter: AssignmentFilter, assignedTo: string | null, userId: string) =>
+  filter === "all" || (filter === "mine" ? assignedTo === userId : assignedTo === null);
+
 export default function Enquiries() {
   const navigate = useNavigate();
+  const { user, can } = useAuth();
+  const currentUserId = user?.id ?? null;
   const [enquiries, setEnquiries] = useState<Enquiry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [selectedEnquiry, setSelectedEnquiry] = useState<{ id: string; action: 'accept' | 'reject' } | null>(null);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [assignmentFilter, setAssignmentFilter] = useState<AssignmentFilter>("all");
+  const [selectedEnquiry, setSelectedEnquiry] = useState<{ id: string; status: StaffEnquiryStatus } | null>(null);
+  const [statusReason, setStatusReason] = useState("");
   const [isUpdating, setIsUpdating] = useState(false);
 
-  useEffect(() => {
-    checkAccessAndLoadEnquiries();
-  }, []);
+  // The realtime handlers outlive renders, so they read these through refs
+  const assignmentFilterRef = useRef(assignmentFilter);
+  const enquiriesRef = useRef(enquiries);
 
-  const checkAccessAndLoadEnquiries = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    
-    if (!session) {
-      toast({
-        variant: "destructive",
-        title: "Access Denied",
-        description: "Please login to access this page",
-      });
-      navigate("/auth");
-      return;
-    }
+  useEffect(() => {
+    assignmentFilterRef.current = assignmentFilter;
+  }, [assignmentFilter]);
 
-    const { data: roleData } = await supabase
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", session.user.id)
-      .single();
+  useEffect(() => {
+    enquiriesRef.current = enquiries;
+  }, [enquiries]);
 
-    if (!roleData || (roleData.role !== "admin" && roleData.role !== "employee")) {
-      toast({
-        variant: "destructive",
-        title: "Access Denied",
-        description: "You don't have permission to access this page",
-      });
-      navigate("/");
+  const loadStaff = useCallback(async () => {
+    const { data, error } = await supabase.rpc("list_staff");
+    if (error) {
+      console.error("Load staff error:", error);
       return;
     }
+    setStaff(data || []);
+  }, []);
 
-    loadEnquiries();
-  };
+  const loadEnquiries = useCallback(async (showLoading = true) => {
+    if (!currentUserId) return;
 
-  const loadEnquiries = async () => {
-    setIsLoading(true);
+    if (showLoading) setIsLoading(true);
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from("enquiries")
-        .select("*")
+        .select("*, listings(title, listing_type)")
         .order("created_at", { ascending: false });
 
+      if (assignmentFilter === "mine") query = query.eq("assigned_to", currentUserId);
+      if (assignmentFilter === "unassigned") query = query.is("assigned_to", null);
+
+      const { data, error } = await query;
+
       if (error) throw error;
-      
-      // Fetch service titles for each enquiry
-      const enrichedData = await Promise.all(
-        (data || []).map(async (enquiry) => {
-          if (enquiry.service_id) {
-            const { data: service } = await supabase
-              .from("services")
-              .select("title")
-              .eq("id", enquiry.service_id)
-              .single();
-            return { ...enquiry, services: service };
-          }
-          return enquiry;
-        })
-      );
-      
-      setEnquiries(enrichedData);
+      setEnquiries(data || []);
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -113,7 +119,86 @@ export default function Enquiries() {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [assignmentFilter, currentUserId]);
+
+  useEffect(() => {
+    loadStaff();
+  }, [loadStaff]);
+
+  useEffect(() => {
+    loadEnquiries();
+  }, [loadEnquiries]);
+
+  // Pick up new enquiries and changes made by other staff members. Changes
+  // are applied to the list as they arrive rather than reloading all of it,
+  // so the channel does not depend on the filter either.
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    const inFilter = (assignedTo: string | null) =>
+      matchesAssignment(assignmentFilterRef.current, assignedTo, currentUserId);
+
+    // Realtime rows come without the listing, so new ones are fetched with it
+    const addEnquiry = async (id: string) => {
+      const { data, error } = await supabase
+        .from("enquiries")
+        .select("*, listings(title, listing_type)")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Load enquiry error:", error);
+        return;
+      }
+      if (!data || !inFilter(data.assigned_to)) return;
+
+      setEnquiries((prev) =>
+        [data, ...prev.filter((enquiry) => enquiry.id !== data.id)]
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      );
+    };
+
+    const removeEnquiry = (id: string) => {
+      setEnquiries((prev) => prev.filter((enquiry) => enquiry.id !== id));
+    };
+
+    const channel = supabase
+      .channel("enquiries")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "enquiries" },
+        (payload) => {
+          const enquiry = payload.new as Tables<"enquiries">;
+          if (inFilter(enquiry.assigned_to)) addEnquiry(enquiry.id);
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "enquiries" },
+        (payload) => {
+          const enquiry = payload.new as Tables<"enquiries">;
+          if (!inFilter(enquiry.assigned_to)) {
+            removeEnquiry(enquiry.id);
+          } else if (enquiriesRef.current.some((existing) => existing.id === enquiry.id)) {
+            setEnquiries((prev) =>
+              prev.map((existing) => (existing.id === enquiry.id ? { ...existing, ...enquiry } : existing))
+            );
+          } else {
+            addEnquiry(enquiry.id);
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "enquiries" },
+        (payload) => removeEnquiry((payload.old as Partial<Tables<"enquiries">>).id ?? "")
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentUserId]);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-IN", {
@@ -125,42 +210,69 @@ export default function Enquiries() {
     });
   };
 
+  const handleAssign = async (enquiryId: string, assigneeId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from("enquiries")
+        .update({ assigned_to: assigneeId })
+        .eq("id", enquiryId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Enquiry Assigned",
+        description: assigneeId ? `Assigned to ${getStaffName(assigneeId)}.` : "Enquiry is now unassigned.",
+      });
+
+      loadEnquiries();
+      loadStaff();
+    } catch (error) {
+      console.error("Assign error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to assign enquiry",
+      });
+    }
+  };
+
+  const getStaffName = (userId: string) => {
+    if (userId === currentUserId) return "you";
+    return staff.find((member) => member.user_id === userId)?.full_name || "a former staff member";
+  };
+
+  const openStatusDialog = (id: string, status: StaffEnquiryStatus) => {
+    setStatusReason("");
+    setSelectedEnquiry({ id, status });
+  };
+
+  const reasonRequired = !!selectedEnquiry && REASON_REQUIRED_STATUSES.includes(selectedEnquiry.status);
+
   const handleStatusUpdate = async () => {
     if (!selectedEnquiry) return;
 
     setIsUpdating(true);
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session?.access_token) throw new Error("Not authenticated");
-
-      const status = selectedEnquiry.action === 'accept' ? 'accepted' : 'rejected';
-
-      const response = await supabase.functions.invoke("update-enquiry-status", {
-        body: {
-          enquiry_id: selectedEnquiry.id,
-          status: status,
-        },
-        headers: {
-          Authorization: `Bearer ${session.access_token}`,
-        },
+      await invokeFunction("update-enquiry-status", {
+        enquiry_id: selectedEnquiry.id,
+        status: selectedEnquiry.status,
+        reason: statusReason.trim() || undefined,
       });
 
-      if (response.error) throw response.error;
-
       toast({
         title: "Status Updated",
-        description: `Enquiry has been ${status}. User has been notified.`,
+        description: `Enquiry moved to ${formatEnquiryStatus(selectedEnquiry.status)}. User has been notified.`,
       });
 
       // Reload enquiries
       loadEnquiries();
       setSelectedEnquiry(null);
-    } catch (error: any) {
+    } catch (error) {
       console.error("Update error:", error);
       toast({
         variant: "destructive",
         title: "Error",
-        description: error.message || "Failed to update enquiry status",
+        description: error instanceof Error ? error.message : "Failed to update enquiry status",
       });
     } finally {
       setIsUpdating(false);
@@ -177,6 +289,18 @@ export default function Enquiries() {
               <Inbox className="w-6 h-6 mr-2 text-primary" />
               Property Enquiries
             </CardTitle>
+            <div className="pt-2">
+              <Select value={assignmentFilter} onValueChange={(value) => setAssignmentFilter(value as AssignmentFilter)}>
+                <SelectTrigger className="w-full md:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All enquiries</SelectItem>
+                  <SelectItem value="mine">Assigned to me</SelectItem>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </CardHeader>
         </Card>
 
@@ -187,7 +311,9 @@ export default function Enquiries() {
         ) : enquiries.length === 0 ? (
           <div className="text-center py-12">
             <Inbox className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
-            <p className="text-muted-foreground">No enquiries yet</p>
+            <p className="text-muted-foreground">
+              {assignmentFilter === "all" ? "No enquiries yet" : "No enquiries match this filter"}
+            </p>
           </div>
         ) : (
           <div className="grid gap-4">
@@ -197,22 +323,20 @@ export default function Enquiries() {
                   <div className="flex justify-between items-start mb-4">
                     <div className="flex-1">
                       <h3 className="font-semibold text-lg">
-                        {enquiry.services?.title || 'Service'}
+                        {enquiry.listings?.title || 'Listing no longer available'}
                       </h3>
-                      <Badge variant="outline" className="mt-2">
-                        {enquiry.service_type}
-                      </Badge>
+                      {enquiry.listings && (
+                        <Badge variant="outline" className="mt-2">
+                          {listingTypeLabels[enquiry.listings.listing_type] || enquiry.listings.listing_type}
+                        </Badge>
+                      )}
                       <p className="text-sm text-muted-foreground flex items-center mt-2">
                         <Calendar className="w-3 h-3 mr-1" />
                         {formatDate(enquiry.created_at)}
                       </p>
                     </div>
-                    <Badge variant={
-                      enquiry.status === "pending" ? "default" : 
-                      enquiry.status === "accepted" ? "default" : 
-                      "secondary"
-                    }>
-                      {enquiry.status}
+                    <Badge variant={enquiryStatusVariant(enquiry.status)}>
+                      {formatEnquiryStatus(enquiry.status)}
                     </Badge>
                   </div>
 
@@ -256,26 +380,60 @@ export default function Enquiries() {
                     )}
                   </div>
 
-                  {enquiry.status === "pending" && (
-                    <div className="flex gap-2">
-                      <Button 
-                        size="sm" 
-                        variant="default"
-                        className="flex-1"
-                        onClick={() => setSelectedEnquiry({ id: enquiry.id, action: 'accept' })}
-                      >
-                        <CheckCircle className="w-4 h-4 mr-1" />
-                        Accept
-                      </Button>
-                      <Button 
-                        size="sm" 
-                        variant="destructive"
-                        className="flex-1"
-                        onClick={() => setSelectedEnquiry({ id: enquiry.id, action: 'reject' })}
+                  <div className="flex items-center gap-2 text-sm mb-4">
+                    <UserCheck className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                    {can("enquiries.assign") ? (
+                      <Select
+                        value={enquiry.assigned_to ?? UNASSIGNED}
+                        onValueChange={(value) => handleAssign(enquiry.id, value === UNASSIGNED ? null : value)}
                       >
-                        <XCircle className="w-4 h-4 mr-1" />
-                        Reject
-                      </Button>
+                        <SelectTrigger className="h-8 w-full md:w-72">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          {staff.map((member) => (
+                            <SelectItem key={member.user_id} value={member.user_id}>
+                              {member.full_name} ({member.open_enquiries} open)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-muted-foreground">
+                        {enquiry.assigned_to ? `Assigned to ${getStaffName(enquiry.assigned_to)}` : "Unassigned"}
+                      </span>
+                    )}
+                  </div>
+
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="w-full mb-2"
+                    onClick={() => navigate(`/enquiries/${enquiry.id}`)}
+                  >
+                    <MessageSquare className="w-4 h-4 mr-1" />
+                    View Conversation
+                  </Button>
+
+                  {getStaffTransitions(enquiry.status).length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {getStaffTransitions(enquiry.status).map((status) => {
+                        const isNegative = REASON_REQUIRED_STATUSES.includes(status);
+                        const Icon = isNegative ? XCircle : status === "closed_won" ? CheckCircle : CircleArrowRight;
+                        return (
+                          <Button
+                            key={status}
+                            size="sm"
+                            variant={isNegative ? "destructive" : "default"}
+                            className="flex-1"
+                            onClick={() => openStatusDialog(enquiry.id, status)}
+                          >
+                            <Icon className="w-4 h-4 mr-1" />
+                            {formatEnquiryStatus(status)}
+                          </Button>
+                        );
+                      })}
                     </div>
                   )}
                 </CardContent>
@@ -290,17 +448,31 @@ export default function Enquiries() {
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>
-              {selectedEnquiry?.action === 'accept' ? 'Accept Enquiry' : 'Reject Enquiry'}
+              Move to {selectedEnquiry && formatEnquiryStatus(selectedEnquiry.status)}
             </AlertDialogTitle>
             <AlertDialogDescription>
-              {selectedEnquiry?.action === 'accept' 
-                ? 'Are you sure you want to accept this enquiry? The user will be notified via notification.'
-                : 'Are you sure you want to reject this enquiry? The user will be notified.'}
+              {reasonRequired
+                ? "Let the customer know why. The reason is shared with them and kept in the enquiry history."
+                : "The user will be notified and the change is recorded in the enquiry history."}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="status-reason">{reasonRequired ? "Reason *" : "Note (Optional)"}</Label>
+            <Textarea
+              id="status-reason"
+              value={statusReason}
+              onChange={(e) => setStatusReason(e.target.value)}
+              placeholder={reasonRequired ? "Why is this enquiry being closed?" : "e.g. Site visit on Saturday at 11am"}
+              maxLength={500}
+              rows={3}
+            />
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel disabled={isUpdating}>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleStatusUpdate} disabled={isUpdating}>
+            <AlertDialogAction
+              onClick={handleStatusUpdate}
+              disabled={isUpdating || (reasonRequired && !statusReason.trim())}
+            >
               {isUpdating ? "Updating..." : "Confirm"}
             </AlertDialogAction>
           </AlertDialogFooter>
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import Navbar from "@/components/Navbar";
+import { useAuth } from "@/hooks/use-auth";
+import { listingTypeLabels } from "@/lib/listings";
+import EnquiryThread from "@/components/EnquiryThread";
+import EnquiryStatusTimeline, { type EnquiryStatusEvent } from "@/components/EnquiryStatusTimeline";
+import { enquiryStatusVariant, formatEnquiryStatus } from "@/lib/enquiry-status";
+import { ArrowLeft, Calendar, History, Inbox, Mail, MessageSquare, Phone } from "lucide-react";
+
+interface Enquiry {
+  id: string;
+  listing_id: string | null;
+  user_id: string | null;
+  user_name: string;
+  user_email: string;
+  user_phone: string;
+  message: string | null;
+  status: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  listings: {
+    title: string;
+    listing_type: string;
+  } | null;
+}
+
+export default function EnquiryDetails() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const [enquiry, setEnquiry] = useState<Enquiry | null>(null);
+  const [statusHistory, setStatusHistory] = useState<EnquiryStatusEvent[]>([]);
+  const { user } = useAuth();
+  const currentUserId = user?.id ?? null;
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEnquiry = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      // RLS only returns the rows to the enquiry's owner or to admins/employees
+      const [{ data, error }, { data: history, error: historyError }] = await Promise.all([
+        supabase
+          .from("enquiries")
+          .select("*, listings(title, listing_type)")
+          .eq("id", id)
+          .maybeSingle(),
+        supabase
+          .from("enquiry_status_history")
+          .select("*")
+          .eq("enquiry_id", id)
+          .order("created_at", { ascending: true }),
+      ]);
+
+      if (error) throw error;
+      if (historyError) throw historyError;
+      setEnquiry(data);
+      setStatusHistory(history || []);
+    } catch (error) {
+      console.error("Load enquiry error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load enquiry",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  // RequireAuth only renders this page for signed-in users
+  useEffect(() => {
+    loadEnquiry();
+  }, [loadEnquiry]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <Button variant="ghost" size="sm" className="mb-4" onClick={() => navigate(-1)}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Loading enquiry...</p>
+          </div>
+        ) : !enquiry ? (
+          <div className="text-center py-12">
+            <Inbox className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+            <p className="text-muted-foreground">This enquiry could not be found</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="text-2xl">{enquiry.listings?.title || "Listing no longer available"}</CardTitle>
+                    {enquiry.listings && (
+                      <Badge variant="outline" className="mt-2">
+                        {listingTypeLabels[enquiry.listings.listing_type] || enquiry.listings.listing_type}
+                      </Badge>
+                    )}
+                    {enquiry.created_at && (
+                      <p className="text-sm text-muted-foreground flex items-center mt-2">
+                        <Calendar className="w-3 h-3 mr-1" />
+                        {formatDate(enquiry.created_at)}
+                      </p>
+                    )}
+                  </div>
+                  <Badge variant={enquiryStatusVariant(enquiry.status)}>
+                    {formatEnquiryStatus(enquiry.status)}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="p-3 bg-muted rounded-md">
+                  <p className="font-medium text-base mb-2">Contact Details:</p>
+                  <div className="space-y-2">
+                    <div className="flex items-center">
+                      <span className="font-medium mr-2">Name:</span>
+                      {enquiry.user_name}
+                    </div>
+                    <div className="flex items-center">
+                      <Mail className="w-4 h-4 mr-2 text-muted-foreground" />
+                      {enquiry.user_email}
+                    </div>
+                    <div className="flex items-center">
+                      <Phone className="w-4 h-4 mr-2 text-muted-foreground" />
+                      {enquiry.user_phone}
+                    </div>
+                  </div>
+                </div>
+
+                {enquiry.message && (
+                  <div className="flex items-start p-3 bg-muted rounded-md">
+                    <MessageSquare className="w-4 h-4 mr-2 text-muted-foreground mt-0.5 flex-shrink-0" />
+                    <div>
+                      <p className="font-medium mb-1">Message:</p>
+                      <p className="text-muted-foreground">{enquiry.message}</p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center text-lg">
+                  <History className="w-5 h-5 mr-2 text-primary" />
+                  Status History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <EnquiryStatusTimeline events={statusHistory} />
+              </CardContent>
+            </Card>
+
+            {currentUserId && (
+              <EnquiryThread enquiryId={enquiry.id} currentUserId={currentUserId} />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
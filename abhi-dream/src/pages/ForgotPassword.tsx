@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import AuthLayout from "@/components/AuthLayout";
+import { describeAuthError, requestPasswordReset } from "@/lib/auth-flows";
+import { AlertCircle, MailCheck } from "lucide-react";
+import { z } from "zod";
+
+const emailSchema = z.string().trim().email("Invalid email address");
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const validation = emailSchema.safeParse(email);
+    if (!validation.success) {
+      setError(validation.error.errors[0].message);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await requestPasswordReset(validation.data);
+      setSentTo(validation.data);
+    } catch (error) {
+      setError(describeAuthError(error, "Unable to send the reset email"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <AuthLayout title="Forgot Password" description="We'll email you a link to choose a new password">
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {sentTo && (
+        <Alert className="mb-6">
+          <MailCheck className="h-4 w-4" />
+          <AlertTitle>Check your inbox</AlertTitle>
+          <AlertDescription>
+            If {sentTo} has an account, a reset link is on its way. It can only be used once.
+          </AlertDescription>
+        </Alert>
+      )}
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="forgot-email">Email</Label>
+          <Input
+            id="forgot-email"
+            type="email"
+            placeholder="you@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+        </div>
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Sending..." : sentTo ? "Send again" : "Send Reset Link"}
+        </Button>
+        <p className="text-center text-sm text-muted-foreground">
+          Remembered it?{" "}
+          <Link to="/auth" className="text-primary hover:underline">
+            Back to login
+          </Link>
+        </p>
+      </form>
+    </AuthLayout>
+  );
+}
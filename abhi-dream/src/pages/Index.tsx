@@ -1,11 +1,22 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { supabase } from "@/integrations/supabase/client";
+import { invokeFunction } from "@/integrations/api/client";
 import { toast } from "@/hooks/use-toast";
 import Navbar from "@/components/Navbar";
+import { useAuth } from "@/hooks/use-auth";
 import PropertyCard from "@/components/PropertyCard";
-import { Building2, Search, MapPin, Wrench, Truck, Paintbrush, Sparkles, Megaphone } from "lucide-react";
+import PropertyFilters from "@/components/PropertyFilters";
+import InfiniteScrollTrigger from "@/components/InfiniteScrollTrigger";
+import ListingMap from "@/components/ListingMap";
+import SaveSearchButton from "@/components/SaveSearchButton";
+import GuestTrackingLinkDialog from "@/components/GuestTrackingLinkDialog";
+import HoneypotField from "@/components/HoneypotField";
+import { useListingFeed } from "@/hooks/use-listing-feed";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useDebounce } from "@/hooks/use-debounce";
+import { guestEnquirySchema, submitGuestEnquiry } from "@/lib/guest-enquiries";
+import { Building2, Search, MapPin, Map as MapIcon, LayoutGrid, Wrench, Truck, Paintbrush, Sparkles, Megaphone } from "lucide-react";
 import { Link } from "react-router-dom";
 import { Input } from "@/components/ui/input";
 import {
@@ -17,79 +28,62 @@ import {
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { z } from "zod";
-
-const guestEnquirySchema = z.object({
-  name: z.string().trim().min(1, "Name is required").max(100),
-  phone: z.string().trim().min(10, "Valid phone number is required").max(15),
-  email: z.string().trim().email("Valid email is required").max(255),
-  message: z.string().trim().max(1000, "Message must be less than 1000 characters"),
-});
-
-interface Property {
-  id: string;
-  title: string;
-  description: string;
-  price: number;
-  address: string;
-  bedrooms?: number;
-  bathrooms?: number;
-  area_sqft?: number;
-  property_type?: string;
-  status: string;
-  images?: string[];
-}
+import type { Listing } from "@/lib/listings";
+import {
+  hasActiveFilters,
+  parseListingSearch,
+  toListingSearchParams,
+  toSearchListingsArgs,
+  type ListingSearchFilters,
+} from "@/lib/listing-search";
+import { toSavedSearchCriteria } from "@/lib/saved-searches";
 
 export default function Index() {
   const navigate = useNavigate();
-  const [properties, setProperties] = useState<Property[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [user, setUser] = useState<any>(null);
-  const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseListingSearch(searchParams);
+  const [view, setView] = useState<"grid" | "map">(filters.near || filters.bounds ? "map" : "grid");
+  const { user, isGuest } = useAuth();
+  const [selectedProperty, setSelectedProperty] = useState<Listing | null>(null);
   const [enquiryMessage, setEnquiryMessage] = useState("");
   const [isEnquiring, setIsEnquiring] = useState(false);
-  const [isGuest, setIsGuest] = useState(false);
+  const [trackingToken, setTrackingToken] = useState<string | null>(null);
   const [enquiryData, setEnquiryData] = useState({
     name: "",
     phone: "",
     email: "",
     message: "",
+    website: "",
   });
 
-  useEffect(() => {
-    checkUser();
-    loadProperties();
-  }, []);
+  // Filters live in the URL so searches can be shared; debounce typing
+  const searchKey = useDebounce(searchParams.toString());
+  const {
+    listings: properties,
+    isLoading,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+  } = useListingFeed(
+    toSearchListingsArgs(parseListingSearch(new URLSearchParams(searchKey))),
+    "Failed to load properties"
+  );
 
-  const checkUser = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    setUser(session?.user ?? null);
-    setIsGuest(session?.user?.is_anonymous || false);
-  };
+  const signedInUserId = user && !isGuest ? user.id : null;
+  const { favoriteIds, toggleFavorite } = useFavorites(signedInUserId);
 
-  const loadProperties = async () => {
-    setIsLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from("properties")
-        .select("*")
-        .order("created_at", { ascending: false });
+  const updateFilters = (changes: Partial<ListingSearchFilters>) => {
+    const next = { ...filters, ...changes };
+    // Relevance ranking needs a search term
+    if (!next.q && next.sort === "relevance") next.sort = "";
+    setSearchParams(toListingSearchParams(next), { replace: true });
+  };
 
-      if (error) throw error;
-      setProperties(data || []);
-    } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Failed to load properties",
-      });
-    } finally {
-      setIsLoading(false);
-    }
+  const clearFilters = () => {
+    setSearchParams(new URLSearchParams(), { replace: true });
   };
 
-  const handleEnquire = (property: Property) => {
+  const handleEnquire = (property: Listing) => {
     setSelectedProperty(property);
   };
 
@@ -111,36 +105,22 @@ export default function Index() {
           return;
         }
 
-        // Insert directly for guests
-        const { error } = await supabase.from("enquiries").insert({
-          service_id: selectedProperty.id,
-          service_type: "property",
-          user_name: enquiryData.name,
-          user_email: enquiryData.email,
-          user_phone: enquiryData.phone,
+        // Guests get a tracking link instead of an account to follow the enquiry
+        const token = await submitGuestEnquiry({
+          listingId: selectedProperty.id,
+          name: enquiryData.name,
+          email: enquiryData.email,
+          phone: enquiryData.phone,
           message: enquiryData.message,
-          is_guest: true,
+          website: enquiryData.website,
         });
-
-        if (error) throw error;
+        setTrackingToken(token);
       } else {
         // Regular user flow
-        const { data: { session } } = await supabase.auth.getSession();
-        if (!session?.access_token) throw new Error("Not authenticated");
-
-        const response = await supabase.functions.invoke("send-enquiry", {
-          body: {
-            service_id: selectedProperty.id,
-            service_title: selectedProperty.title,
-            service_type: "property",
-            message: enquiryMessage,
-          },
-          headers: {
-            Authorization: `Bearer ${session.access_token}`,
-          },
+        await invokeFunction("send-enquiry", {
+          listing_id: selectedProperty.id,
+          message: enquiryMessage,
         });
-
-        if (response.error) throw response.error;
       }
 
       toast({
@@ -150,7 +130,7 @@ export default function Index() {
 
       setSelectedProperty(null);
       setEnquiryMessage("");
-      setEnquiryData({ name: "", phone: "", email: "", message: "" });
+      setEnquiryData({ name: "", phone: "", email: "", message: "", website: "" });
     } catch (error: any) {
       console.error("Enquiry error:", error);
       toast({
@@ -163,12 +143,6 @@ export default function Index() {
     }
   };
 
-  const filteredProperties = properties.filter((property) =>
-    property.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    property.address.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    property.description.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
@@ -192,8 +166,8 @@ export default function Index() {
               <Input
                 type="text"
                 placeholder="Search by location, property type, or keywords..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                value={filters.q}
+                onChange={(e) => updateFilters({ q: e.target.value })}
                 className="pl-12 py-6 text-lg bg-white"
               />
             </div>
@@ -284,30 +258,74 @@ export default function Index() {
               Explore our curated collection of premium properties
             </p>
           </div>
+          <div className="flex gap-2">
+            <SaveSearchButton
+              userId={signedInUserId}
+              criteria={toSavedSearchCriteria(toSearchListingsArgs(filters))}
+              defaultName={filters.q || filters.property_type || "My property search"}
+            />
+            <Button
+              variant={view === "grid" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView("grid")}
+            >
+              <LayoutGrid className="w-4 h-4 mr-2" />
+              Grid
+            </Button>
+            <Button
+              variant={view === "map" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView("map")}
+            >
+              <MapIcon className="w-4 h-4 mr-2" />
+              Map
+            </Button>
+          </div>
         </div>
 
+        <PropertyFilters
+          filters={filters}
+          onChange={updateFilters}
+          onClear={clearFilters}
+          showClear={hasActiveFilters(filters)}
+        />
+
+        {view === "map" && (
+          <div className="mb-8">
+            <ListingMap listings={properties} filters={filters} onAreaChange={updateFilters} />
+          </div>
+        )}
+
         {isLoading ? (
           <div className="text-center py-12">
             <p className="text-muted-foreground">Loading properties...</p>
           </div>
-        ) : filteredProperties.length === 0 ? (
+        ) : properties.length === 0 ? (
           <div className="text-center py-12">
             <MapPin className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
             <p className="text-muted-foreground text-lg">
-              {searchQuery ? "No properties found matching your search" : "No properties available"}
+              {hasActiveFilters(filters) ? "No properties found matching your search" : "No properties available"}
             </p>
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredProperties.map((property) => (
+            {properties.map((property) => (
               <PropertyCard
                 key={property.id}
                 property={property}
                 onEnquire={handleEnquire}
+                isFavorite={favoriteIds.has(property.id)}
+                onToggleFavorite={(listing) => toggleFavorite(listing.id)}
               />
             ))}
           </div>
         )}
+
+        <InfiniteScrollTrigger
+          hasMore={!isLoading && hasNextPage}
+          isLoading={isFetchingNextPage}
+          onLoadMore={fetchNextPage}
+        />
       </section>
 
       {/* Enquiry Dialog */}
@@ -350,6 +368,7 @@ export default function Index() {
                     placeholder="Enter your email"
                   />
                 </div>
+                <HoneypotField value={enquiryData.website} onChange={(website) => setEnquiryData({ ...enquiryData, website })} />
               </>
             )}
             <div className="space-y-2">
@@ -382,6 +401,8 @@ export default function Index() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <GuestTrackingLinkDialog token={trackingToken} onClose={() => setTrackingToken(null)} />
     </div>
   );
 }
@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,8 +9,21 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
 import Navbar from "@/components/Navbar";
-import { Upload, X, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import InfiniteScrollTrigger from "@/components/InfiniteScrollTrigger";
+import { LISTING_FEED_KEY, useListingFeed } from "@/hooks/use-listing-feed";
+import { Pencil, Trash2 } from "lucide-react";
+import { z } from "zod";
 import { Badge } from "@/components/ui/badge";
+import ImageListEditor, { type ImageItem } from "@/components/ImageListEditor";
+import {
+  deleteListingImages,
+  geocodeListing,
+  listingTypeLabels,
+  needsGeocoding,
+  uploadListingImage,
+  type Listing,
+} from "@/lib/listings";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,100 +35,70 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-interface Service {
-  id: string;
-  title: string;
-  description: string;
-  price: number;
-  service_type: string;
-  status: string;
-  images?: string[];
-  address?: string;
-}
+// Mirrors the CHECK constraints on public.listings. Property listings
+// are managed from the admin page, so they are not offered here.
+const serviceSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  description: z.string().trim().min(1, "Description is required"),
+  price: z.number({ invalid_type_error: "Price is required" }).min(0, "Price cannot be negative"),
+  listing_type: z.enum(["renovation", "packers_movers", "painting", "cleaning", "advertising"], {
+    errorMap: () => ({ message: "Please select a valid service type" }),
+  }),
+  status: z.enum(["available", "unavailable"], {
+    errorMap: () => ({ message: "Status must be available or unavailable" }),
+  }),
+  address: z.string().trim().max(500, "Address too long").optional(),
+});
+
+const emptyFormData = {
+  title: "",
+  description: "",
+  price: "",
+  listing_type: "renovation",
+  address: "",
+  status: "available"
+};
 
 export default function ManageServices() {
-  const navigate = useNavigate();
+  const { user, can } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
-  const [services, setServices] = useState<Service[]>([]);
   const [serviceToDelete, setServiceToDelete] = useState<string | null>(null);
-  const [formData, setFormData] = useState({
-    title: "",
-    description: "",
-    price: "",
-    service_type: "property",
-    address: "",
-    status: "available"
-  });
-  const [imageFiles, setImageFiles] = useState<File[]>([]);
-  const [imagePreviewUrls, setImagePreviewUrls] = useState<string[]>([]);
-
-  useEffect(() => {
-    checkAccess();
-    loadServices();
-  }, []);
-
-  const checkAccess = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    
-    if (!session) {
-      toast({
-        variant: "destructive",
-        title: "Access Denied",
-        description: "Please login to access this page",
-      });
-      navigate("/auth");
-      return;
-    }
-
-    const { data: roleData } = await supabase
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", session.user.id)
-      .single();
-
-    if (!roleData || (roleData.role !== "admin" && roleData.role !== "employee")) {
-      toast({
-        variant: "destructive",
-        title: "Access Denied",
-        description: "You don't have permission to access this page",
-      });
-      navigate("/");
-    }
-  };
-
-  const loadServices = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("services")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      setServices(data || []);
-    } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Failed to load services",
-      });
-    }
+  const [editingServiceId, setEditingServiceId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyFormData);
+  const [images, setImages] = useState<ImageItem[]>([]);
+  const formRef = useRef<HTMLDivElement>(null);
+  const queryClient = useQueryClient();
+  const {
+    listings: services,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+  } = useListingFeed({ _listing_types: serviceSchema.shape.listing_type.options }, "Failed to load services");
+
+  // Refetch every cached listing feed so public pages pick up the change too
+  const refreshServices = () => {
+    queryClient.invalidateQueries({ queryKey: LISTING_FEED_KEY });
   };
 
   const handleDeleteService = async (serviceId: string) => {
     try {
       const { error } = await supabase
-        .from("services")
+        .from("listings")
         .delete()
         .eq("id", serviceId);
 
       if (error) throw error;
 
+      await deleteListingImages(services.find((listing) => listing.id === serviceId)?.images ?? []);
+
       toast({
         title: "Success",
         description: "Service deleted successfully",
       });
 
-      loadServices();
+      if (serviceId === editingServiceId) resetForm();
+
+      refreshServices();
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -127,46 +110,32 @@ export default function ManageServices() {
     }
   };
 
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files) return;
-
-    const newFiles = Array.from(files);
-    setImageFiles(prev => [...prev, ...newFiles]);
-
-    newFiles.forEach(file => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreviewUrls(prev => [...prev, reader.result as string]);
-      };
-      reader.readAsDataURL(file);
+  const startEditing = (service: Listing) => {
+    setEditingServiceId(service.id);
+    setFormData({
+      title: service.title,
+      description: service.description,
+      price: String(service.price),
+      listing_type: service.listing_type,
+      address: service.address || "",
+      status: service.status || "available"
     });
+    setImages((service.images || []).map((url) => ({ url })));
+    formRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
-  const removeImage = (index: number) => {
-    setImageFiles(prev => prev.filter((_, i) => i !== index));
-    setImagePreviewUrls(prev => prev.filter((_, i) => i !== index));
+  const resetForm = () => {
+    setEditingServiceId(null);
+    setFormData(emptyFormData);
+    setImages([]);
   };
 
+  // Uploads newly selected files and returns every image URL in display order
   const uploadImages = async (): Promise<string[]> => {
     const uploadedUrls: string[] = [];
-    
-    for (const file of imageFiles) {
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${Math.random()}.${fileExt}`;
-      const filePath = `${fileName}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('property-images')
-        .upload(filePath, file);
-
-      if (uploadError) throw uploadError;
 
-      const { data: { publicUrl } } = supabase.storage
-        .from('property-images')
-        .getPublicUrl(filePath);
-
-      uploadedUrls.push(publicUrl);
+    for (const image of images) {
+      uploadedUrls.push(image.file ? await uploadListingImage(image.file) : image.url);
     }
 
     return uploadedUrls;
@@ -177,57 +146,72 @@ export default function ManageServices() {
     setIsLoading(true);
 
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) throw new Error("Not authenticated");
-
-      // Upload images first
-      const imageUrls = imageFiles.length > 0 ? await uploadImages() : [];
-
-      const { error } = await supabase.from("services").insert({
+      const validated = serviceSchema.parse({
         ...formData,
         price: parseFloat(formData.price),
-        created_by: session.user.id,
-        images: imageUrls
       });
 
+      if (!user) throw new Error("Not authenticated");
+
+      // Upload images first
+      const imageUrls = await uploadImages();
+
+      const serviceData = {
+        title: validated.title,
+        description: validated.description,
+        price: validated.price,
+        listing_type: validated.listing_type,
+        status: validated.status,
+        address: validated.address || null,
+        images: imageUrls
+      };
+
+      // Update in place so enquiries referencing this service id stay linked
+      const { data: saved, error } = editingServiceId
+        ? await supabase.from("listings").update(serviceData).eq("id", editingServiceId).select("id").single()
+        : await supabase.from("listings").insert({ ...serviceData, created_by: user.id }).select("id").single();
+
       if (error) throw error;
 
+      const previous = services.find((listing) => listing.id === editingServiceId);
+
+      // Storage keeps every upload, so drop the images taken off the listing
+      await deleteListingImages((previous?.images ?? []).filter((url) => !imageUrls.includes(url)));
+
+      // Public geocoding is rate limited, so only look up addresses that changed
+      if (needsGeocoding(previous, serviceData.address) && !(await geocodeListing(saved.id))) {
+        toast({
+          title: "Map location not updated",
+          description: "The service was saved but its address could not be placed on the map.",
+        });
+      }
+
       toast({
         title: "Success",
-        description: "Service created successfully",
+        description: editingServiceId ? "Service updated successfully" : "Service created successfully",
       });
 
-      setFormData({
-        title: "",
-        description: "",
-        price: "",
-        service_type: "property",
-        address: "",
-        status: "available"
-      });
-      setImageFiles([]);
-      setImagePreviewUrls([]);
-      loadServices();
+      resetForm();
+      refreshServices();
     } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: error.message || "Failed to create service",
-      });
+      if (error instanceof z.ZodError) {
+        toast({
+          variant: "destructive",
+          title: "Validation Error",
+          description: error.errors[0].message,
+        });
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: error.message || (editingServiceId ? "Failed to update service" : "Failed to create service"),
+        });
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
-  const serviceTypeLabels: Record<string, string> = {
-    property: "Property",
-    renovation: "Renovation",
-    packers_movers: "Packers & Movers",
-    painting: "Painting",
-    cleaning: "Cleaning",
-    advertising: "Advertising"
-  };
-
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
@@ -262,161 +246,146 @@ export default function ManageServices() {
                         {service.description}
                       </p>
                       <Badge variant="outline">
-                        {serviceTypeLabels[service.service_type] || service.service_type}
+                        {listingTypeLabels[service.listing_type] || service.listing_type}
                       </Badge>
                     </CardContent>
-                    <CardContent className="pt-0">
+                    <CardContent className="pt-0 flex gap-2">
                       <Button
-                        variant="destructive"
+                        variant="outline"
                         size="sm"
-                        className="w-full"
-                        onClick={() => setServiceToDelete(service.id)}
+                        className="flex-1"
+                        onClick={() => startEditing(service)}
                       >
-                        <Trash2 className="w-4 h-4 mr-2" />
-                        Delete Service
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Edit
                       </Button>
+                      {can("listings.delete") && (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          className="flex-1"
+                          onClick={() => setServiceToDelete(service.id)}
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </Button>
+                      )}
                     </CardContent>
                   </Card>
                 ))}
               </div>
+              <InfiniteScrollTrigger
+                hasMore={hasNextPage}
+                isLoading={isFetchingNextPage}
+                onLoadMore={fetchNextPage}
+              />
             </CardContent>
           </Card>
         )}
 
-        {/* Create New Service */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Create New Service</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="service_type">Service Type</Label>
-                <Select
-                  value={formData.service_type}
-                  onValueChange={(value) => setFormData({ ...formData, service_type: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="property">Property</SelectItem>
-                    <SelectItem value="renovation">Renovation</SelectItem>
-                    <SelectItem value="packers_movers">Packers & Movers</SelectItem>
-                    <SelectItem value="painting">Painting</SelectItem>
-                    <SelectItem value="cleaning">Cleaning</SelectItem>
-                    <SelectItem value="advertising">Advertising</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="title">Title</Label>
-                <Input
-                  id="title"
-                  value={formData.title}
-                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                  required
-                />
-              </div>
+        {/* Create / Edit Service */}
+        <div ref={formRef}>
+          <Card>
+            <CardHeader>
+              <CardTitle>{editingServiceId ? "Edit Service" : "Create New Service"}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="listing_type">Service Type</Label>
+                  <Select
+                    value={formData.listing_type}
+                    onValueChange={(value) => setFormData({ ...formData, listing_type: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {serviceSchema.shape.listing_type.options.map((type) => (
+                        <SelectItem key={type} value={type}>{listingTypeLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  rows={4}
-                  required
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="title">Title</Label>
+                  <Input
+                    id="title"
+                    value={formData.title}
+                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                    required
+                  />
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="price">Price (₹)</Label>
-                <Input
-                  id="price"
-                  type="number"
-                  value={formData.price}
-                  onChange={(e) => setFormData({ ...formData, price: e.target.value })}
-                  required
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    rows={4}
+                    required
+                  />
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="address">Address (Optional)</Label>
-                <Input
-                  id="address"
-                  value={formData.address}
-                  onChange={(e) => setFormData({ ...formData, address: e.target.value })}
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="price">Price (₹)</Label>
+                  <Input
+                    id="price"
+                    type="number"
+                    value={formData.price}
+                    onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                    required
+                  />
+                </div>
 
-              <div className="space-y-2">
-                <Label>Service Images</Label>
-                <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary transition-colors">
-                  <input
-                    type="file"
-                    id="images"
-                    multiple
-                    accept="image/*"
-                    onChange={handleImageSelect}
-                    className="hidden"
+                <div className="space-y-2">
+                  <Label htmlFor="address">Address (Optional)</Label>
+                  <Input
+                    id="address"
+                    value={formData.address}
+                    onChange={(e) => setFormData({ ...formData, address: e.target.value })}
                   />
-                  <label htmlFor="images" className="cursor-pointer">
-                    <Upload className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
-                    <p className="text-sm text-muted-foreground">
-                      Click to upload images or drag and drop
-                    </p>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      PNG, JPG, WEBP up to 10MB
-                    </p>
-                  </label>
                 </div>
-                
-                {imagePreviewUrls.length > 0 && (
-                  <div className="grid grid-cols-3 gap-4 mt-4">
-                    {imagePreviewUrls.map((url, index) => (
-                      <div key={index} className="relative group">
-                        <img
-                          src={url}
-                          alt={`Preview ${index + 1}`}
-                          className="w-full h-32 object-cover rounded-lg"
-                        />
-                        <button
-                          type="button"
-                          onClick={() => removeImage(index)}
-                          className="absolute top-2 right-2 w-6 h-6 bg-destructive text-destructive-foreground rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
-                        >
-                          <X className="w-4 h-4" />
-                        </button>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="status">Status</Label>
-                <Select
-                  value={formData.status}
-                  onValueChange={(value) => setFormData({ ...formData, status: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="available">Available</SelectItem>
-                    <SelectItem value="unavailable">Unavailable</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                <div className="space-y-2">
+                  <Label>Service Images</Label>
+                  <ImageListEditor inputId="images" images={images} onChange={setImages} />
+                </div>
 
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? "Creating..." : "Create Service"}
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
+                <div className="space-y-2">
+                  <Label htmlFor="status">Status</Label>
+                  <Select
+                    value={formData.status}
+                    onValueChange={(value) => setFormData({ ...formData, status: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="available">Available</SelectItem>
+                      <SelectItem value="unavailable">Unavailable</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button type="submit" className="flex-1" disabled={isLoading}>
+                    {editingServiceId
+                      ? isLoading ? "Saving..." : "Save Changes"
+                      : isLoading ? "Creating..." : "Create Service"}
+                  </Button>
+                  {editingServiceId && (
+                    <Button type="button" variant="outline" onClick={resetForm} disabled={isLoading}>
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
       </div>
 
       {/* Delete Confirmation Dialog */}
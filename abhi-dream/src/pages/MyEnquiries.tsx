@@ -0,0 +1,226 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import Navbar from "@/components/Navbar";
+import { useAuth } from "@/hooks/use-auth";
+import EnquiryStatusTimeline, { type EnquiryStatusEvent } from "@/components/EnquiryStatusTimeline";
+import { listingTypeLabels } from "@/lib/listings";
+import { enquiryStatusVariant, formatEnquiryStatus } from "@/lib/enquiry-status";
+import { ClipboardList, MessageSquare, Undo2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface Enquiry {
+  id: string;
+  listing_id: string | null;
+  message: string | null;
+  status: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  listings: {
+    title: string;
+    listing_type: string;
+  } | null;
+  history: EnquiryStatusEvent[];
+}
+
+export default function MyEnquiries() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [enquiries, setEnquiries] = useState<Enquiry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [enquiryToWithdraw, setEnquiryToWithdraw] = useState<string | null>(null);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+
+  // RequireAuth only renders this page for signed-in users
+  const userId = user?.id;
+  useEffect(() => {
+    if (userId) loadEnquiries(userId);
+  }, [userId]);
+
+  const loadEnquiries = async (userId: string) => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("enquiries")
+        .select("id, listing_id, message, status, created_at, updated_at, listings(title, listing_type)")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      const enquiryIds = (data || []).map((enquiry) => enquiry.id);
+      const { data: statusHistory, error: historyError } = await supabase
+        .from("enquiry_status_history")
+        .select("*")
+        .in("enquiry_id", enquiryIds)
+        .order("created_at", { ascending: true });
+
+      if (historyError) throw historyError;
+
+      const enrichedData = (data || []).map((enquiry) => ({
+        ...enquiry,
+        history: (statusHistory || []).filter((event) => event.enquiry_id === enquiry.id),
+      }));
+
+      setEnquiries(enrichedData);
+    } catch (error) {
+      console.error("Load enquiries error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load your enquiries",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!enquiryToWithdraw) return;
+
+    setIsWithdrawing(true);
+    try {
+      const { error } = await supabase.rpc("withdraw_enquiry", { _enquiry_id: enquiryToWithdraw });
+      if (error) throw error;
+
+      toast({
+        title: "Enquiry Withdrawn",
+        description: "Your enquiry has been withdrawn.",
+      });
+
+      if (user) loadEnquiries(user.id);
+      setEnquiryToWithdraw(null);
+    } catch (error) {
+      console.error("Withdraw error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to withdraw enquiry",
+      });
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center text-2xl">
+              <ClipboardList className="w-6 h-6 mr-2 text-primary" />
+              My Enquiries
+            </CardTitle>
+          </CardHeader>
+        </Card>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Loading your enquiries...</p>
+          </div>
+        ) : enquiries.length === 0 ? (
+          <div className="text-center py-12">
+            <ClipboardList className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+            <p className="text-muted-foreground mb-4">You haven't made any enquiries yet</p>
+            <Button onClick={() => navigate("/")}>Browse Properties</Button>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {enquiries.map((enquiry) => (
+              <Card key={enquiry.id} className="hover:shadow-md transition-shadow">
+                <CardContent className="pt-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-lg">
+                        {enquiry.listings?.title || "Listing no longer available"}
+                      </h3>
+                      {enquiry.listings && (
+                        <Badge variant="outline" className="mt-2">
+                          {listingTypeLabels[enquiry.listings.listing_type] || enquiry.listings.listing_type}
+                        </Badge>
+                      )}
+                    </div>
+                    <Badge variant={enquiryStatusVariant(enquiry.status)}>
+                      {formatEnquiryStatus(enquiry.status)}
+                    </Badge>
+                  </div>
+
+                  {enquiry.message && (
+                    <div className="flex items-start p-3 bg-muted rounded-md text-sm mb-4">
+                      <MessageSquare className="w-4 h-4 mr-2 text-muted-foreground mt-0.5 flex-shrink-0" />
+                      <p className="text-muted-foreground">{enquiry.message}</p>
+                    </div>
+                  )}
+
+                  <div className="mb-4">
+                    <p className="font-medium text-sm mb-2">Status History</p>
+                    <EnquiryStatusTimeline events={enquiry.history} />
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => navigate(`/enquiries/${enquiry.id}`)}
+                    >
+                      <MessageSquare className="w-4 h-4 mr-1" />
+                      View Conversation
+                    </Button>
+                    {enquiry.status === "pending" && (
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        className="flex-1"
+                        onClick={() => setEnquiryToWithdraw(enquiry.id)}
+                      >
+                        <Undo2 className="w-4 h-4 mr-1" />
+                        Withdraw
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Withdraw Confirmation Dialog */}
+      <AlertDialog open={!!enquiryToWithdraw} onOpenChange={() => setEnquiryToWithdraw(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Withdraw Enquiry</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to withdraw this enquiry? Our team will no longer follow up on it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isWithdrawing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleWithdraw}
+              disabled={isWithdrawing}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isWithdrawing ? "Withdrawing..." : "Withdraw"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
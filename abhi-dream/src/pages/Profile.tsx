@@ -0,0 +1,377 @@
+import { useRef, useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import Navbar from "@/components/Navbar";
+import { useAuth } from "@/hooks/use-auth";
+import { initials, passwordSchema, profileDetailsSchema, uploadAvatar, validateAvatar } from "@/lib/profile";
+import { Camera, KeyRound, Mail, UserCircle } from "lucide-react";
+import { z } from "zod";
+
+const emailSchema = z.string().trim().email("Invalid email address");
+
+export default function Profile() {
+  // RequireAuth only renders this page once the profile has loaded
+  const { user, profile, refreshAccount } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [details, setDetails] = useState({
+    fullName: profile?.full_name ?? "",
+    phone: profile?.phone ?? "",
+  });
+  const [isSavingDetails, setIsSavingDetails] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [newEmail, setNewEmail] = useState("");
+  const [isChangingEmail, setIsChangingEmail] = useState(false);
+  const [passwords, setPasswords] = useState({ current: "", password: "", confirm: "" });
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+
+  if (!user) return null;
+
+  const showValidationError = (error: z.ZodError) => {
+    toast({
+      variant: "destructive",
+      title: "Validation Error",
+      description: error.errors[0].message,
+    });
+  };
+
+  const handleDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = profileDetailsSchema.safeParse(details);
+    if (!validation.success) {
+      showValidationError(validation.error);
+      return;
+    }
+
+    setIsSavingDetails(true);
+    try {
+      const { error } = await supabase
+        .from("profiles")
+        .update({
+          full_name: validation.data.fullName,
+          phone: validation.data.phone,
+        })
+        .eq("id", user.id);
+
+      if (error) throw error;
+
+      await refreshAccount();
+      toast({
+        title: "Profile updated",
+        description: "New enquiries will use these details.",
+      });
+    } catch (error) {
+      console.error("Update profile error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update your profile",
+      });
+    } finally {
+      setIsSavingDetails(false);
+    }
+  };
+
+  const handleAvatar = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = "";
+    if (!file) return;
+
+    const problem = validateAvatar(file);
+    if (problem) {
+      toast({
+        variant: "destructive",
+        title: "Validation Error",
+        description: problem,
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const avatarUrl = await uploadAvatar(user.id, file);
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({ avatar_url: avatarUrl })
+        .eq("id", user.id);
+
+      if (error) throw error;
+
+      await refreshAccount();
+      toast({ title: "Photo updated" });
+    } catch (error) {
+      console.error("Upload avatar error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to upload your photo",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = emailSchema.safeParse(newEmail);
+    if (!validation.success) {
+      showValidationError(validation.error);
+      return;
+    }
+
+    if (validation.data.toLowerCase() === user.email?.toLowerCase()) {
+      toast({
+        variant: "destructive",
+        title: "Validation Error",
+        description: "That is already your email address",
+      });
+      return;
+    }
+
+    setIsChangingEmail(true);
+    try {
+      // Auth keeps the current email until the change is confirmed; the
+      // profile follows it from then on
+      const { error } = await supabase.auth.updateUser(
+        { email: validation.data },
+        { emailRedirectTo: `${window.location.origin}/profile` }
+      );
+
+      if (error) throw error;
+
+      setNewEmail("");
+      toast({
+        title: "Check your inbox",
+        description: `Follow the link we sent to confirm ${validation.data}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Email change failed",
+        description: error instanceof Error ? error.message : "Unable to change your email",
+      });
+    } finally {
+      setIsChangingEmail(false);
+    }
+  };
+
+  const handlePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = passwordSchema.safeParse(passwords.password);
+    if (!validation.success) {
+      showValidationError(validation.error);
+      return;
+    }
+
+    if (passwords.password !== passwords.confirm) {
+      toast({
+        variant: "destructive",
+        title: "Validation Error",
+        description: "Passwords do not match",
+      });
+      return;
+    }
+
+    setIsChangingPassword(true);
+    try {
+      // A signed-in session alone must not be enough to take over the
+      // account, so the current password is checked first
+      const { error: reauthError } = await supabase.auth.signInWithPassword({
+        email: user.email ?? "",
+        password: passwords.current,
+      });
+
+      if (reauthError) {
+        throw new Error(
+          reauthError.code === "invalid_credentials"
+            ? "Your current password is incorrect"
+            : reauthError.message
+        );
+      }
+
+      const { error } = await supabase.auth.updateUser({ password: validation.data });
+
+      if (error) throw error;
+
+      setPasswords({ current: "", password: "", confirm: "" });
+      toast({
+        title: "Password changed",
+        description: "Use your new password next time you log in.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Password change failed",
+        description: error instanceof Error ? error.message : "Unable to change your password",
+      });
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-2xl">
+              <UserCircle className="w-6 h-6 mr-2 text-primary" />
+              My Profile
+            </CardTitle>
+            <CardDescription>
+              These details are shared with our team when you send an enquiry.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center gap-4">
+              <Avatar className="h-20 w-20">
+                {profile?.avatar_url && <AvatarImage src={profile.avatar_url} alt={profile.full_name} />}
+                <AvatarFallback className="text-lg">
+                  {initials(profile?.full_name ?? "") || <UserCircle className="w-8 h-8" />}
+                </AvatarFallback>
+              </Avatar>
+              <div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={handleAvatar}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading}
+                >
+                  <Camera className="w-4 h-4 mr-2" />
+                  {isUploading ? "Uploading..." : "Change photo"}
+                </Button>
+                <p className="text-xs text-muted-foreground mt-2">JPG, PNG or GIF, up to 2 MB</p>
+              </div>
+            </div>
+
+            <form onSubmit={handleDetails} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="profile-name">Full Name</Label>
+                <Input
+                  id="profile-name"
+                  value={details.fullName}
+                  onChange={(e) => setDetails({ ...details, fullName: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-phone">Phone</Label>
+                <Input
+                  id="profile-phone"
+                  type="tel"
+                  value={details.phone}
+                  onChange={(e) => setDetails({ ...details, phone: e.target.value })}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={isSavingDetails}>
+                {isSavingDetails ? "Saving..." : "Save Changes"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg">
+              <Mail className="w-5 h-5 mr-2 text-primary" />
+              Email Address
+            </CardTitle>
+            <CardDescription>
+              You log in with {user.email}. We send a confirmation link before switching to a new address.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {user.new_email && (
+              <p className="text-sm text-muted-foreground mb-4">
+                Waiting for you to confirm {user.new_email}.
+              </p>
+            )}
+            <form onSubmit={handleEmail} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="profile-email">New Email</Label>
+                <Input
+                  id="profile-email"
+                  type="email"
+                  value={newEmail}
+                  onChange={(e) => setNewEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" variant="outline" disabled={isChangingEmail}>
+                {isChangingEmail ? "Sending..." : "Change Email"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg">
+              <KeyRound className="w-5 h-5 mr-2 text-primary" />
+              Password
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handlePassword} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="profile-password-current">Current Password</Label>
+                <Input
+                  id="profile-password-current"
+                  type="password"
+                  autoComplete="current-password"
+                  value={passwords.current}
+                  onChange={(e) => setPasswords({ ...passwords, current: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-password">New Password</Label>
+                <Input
+                  id="profile-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={passwords.password}
+                  onChange={(e) => setPasswords({ ...passwords, password: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-password-confirm">Confirm Password</Label>
+                <Input
+                  id="profile-password-confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={passwords.confirm}
+                  onChange={(e) => setPasswords({ ...passwords, confirm: e.target.value })}
+                  required
+                />
+              </div>
+              <Button type="submit" variant="outline" disabled={isChangingPassword}>
+                {isChangingPassword ? "Changing..." : "Change Password"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import { Link, useNavigate } from "react-router-dom";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import AuthLayout from "@/components/AuthLayout";
+import { useAuth } from "@/hooks/use-auth";
+import { describeAuthError, readAuthRedirectError } from "@/lib/auth-flows";
+import { passwordSchema } from "@/lib/profile";
+import { AlertCircle } from "lucide-react";
+
+export default function ResetPassword() {
+  const navigate = useNavigate();
+  const { isLoading } = useAuth();
+  const [linkError] = useState(readAuthRedirectError);
+  // Being signed in proves nothing: anyone at a signed-in browser could open
+  // this page. Only the recovery event from opening the reset link does.
+  const [recoveryUser, setRecoveryUser] = useState<User | null>(null);
+  const [passwords, setPasswords] = useState({ password: "", confirm: "" });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === "PASSWORD_RECOVERY" && session) {
+        setRecoveryUser(session.user);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const validation = passwordSchema.safeParse(passwords.password);
+    if (!validation.success) {
+      setError(validation.error.errors[0].message);
+      return;
+    }
+
+    if (passwords.password !== passwords.confirm) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password: validation.data });
+
+      if (error) throw error;
+
+      toast({
+        title: "Password updated",
+        description: "You're logged in with your new password.",
+      });
+      navigate("/", { replace: true });
+    } catch (error) {
+      setError(describeAuthError(error, "Unable to update your password"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading && !linkError && !recoveryUser) {
+    return (
+      <AuthLayout title="Reset Password">
+        <p className="text-center text-muted-foreground">Checking your reset link...</p>
+      </AuthLayout>
+    );
+  }
+
+  if (linkError || !recoveryUser) {
+    return (
+      <AuthLayout title="Reset Password">
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Reset link not valid</AlertTitle>
+          <AlertDescription>
+            {linkError ?? "Open the link from your reset email in this browser, or request a new one."}
+          </AlertDescription>
+        </Alert>
+        <Button asChild className="w-full">
+          <Link to="/forgot-password">Request a New Link</Link>
+        </Button>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout title="Reset Password" description={`Choose a new password for ${recoveryUser.email}`}>
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="reset-password">New Password</Label>
+          <Input
+            id="reset-password"
+            type="password"
+            autoComplete="new-password"
+            placeholder="••••••••"
+            value={passwords.password}
+            onChange={(e) => setPasswords({ ...passwords, password: e.target.value })}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="reset-password-confirm">Confirm Password</Label>
+          <Input
+            id="reset-password-confirm"
+            type="password"
+            autoComplete="new-password"
+            placeholder="••••••••"
+            value={passwords.confirm}
+            onChange={(e) => setPasswords({ ...passwords, confirm: e.target.value })}
+            required
+          />
+        </div>
+        <Button type="submit" className="w-full" disabled={isSaving}>
+          {isSaving ? "Saving..." : "Set New Password"}
+        </Button>
+      </form>
+    </AuthLayout>
+  );
+}
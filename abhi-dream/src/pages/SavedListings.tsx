@@ -0,0 +1,182 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeFunction } from "@/integrations/api/client";
+import { toast } from "@/hooks/use-toast";
+import { useFavorites } from "@/hooks/use-favorites";
+import Navbar from "@/components/Navbar";
+import { useAuth } from "@/hooks/use-auth";
+import PropertyCard from "@/components/PropertyCard";
+import ServiceCard from "@/components/ServiceCard";
+import { Heart } from "lucide-react";
+import type { Listing } from "@/lib/listings";
+
+export default function SavedListings() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [listings, setListings] = useState<Listing[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
+  const [enquiryMessage, setEnquiryMessage] = useState("");
+  const [isEnquiring, setIsEnquiring] = useState(false);
+  const { favoriteIds, isLoading: isLoadingFavorites, toggleFavorite } = useFavorites(userId);
+
+  // RequireAuth only renders this page for signed-in users
+  useEffect(() => {
+    if (userId) loadListings(userId);
+  }, [userId]);
+
+  const loadListings = async (currentUserId: string) => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("favorites")
+        .select("listings(*)")
+        .eq("user_id", currentUserId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setListings((data || []).flatMap((favorite) => (favorite.listings ? [favorite.listings] : [])));
+    } catch (error) {
+      console.error("Load saved listings error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load saved listings",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const submitEnquiry = async () => {
+    if (!selectedListing) return;
+
+    setIsEnquiring(true);
+    try {
+      await invokeFunction("send-enquiry", {
+        listing_id: selectedListing.id,
+        message: enquiryMessage,
+      });
+
+      toast({
+        title: "Enquiry Submitted!",
+        description: "Our team will contact you soon.",
+      });
+
+      setSelectedListing(null);
+      setEnquiryMessage("");
+    } catch (error) {
+      console.error("Enquiry error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to submit enquiry",
+      });
+    } finally {
+      setIsEnquiring(false);
+    }
+  };
+
+  // Hide listings as soon as they are unsaved on this page
+  const savedListings = listings.filter((listing) => favoriteIds.has(listing.id));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center text-2xl">
+              <Heart className="w-6 h-6 mr-2 text-primary" />
+              Saved Listings
+            </CardTitle>
+          </CardHeader>
+        </Card>
+
+        {isLoading || isLoadingFavorites ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Loading saved listings...</p>
+          </div>
+        ) : savedListings.length === 0 ? (
+          <div className="text-center py-12">
+            <Heart className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+            <p className="text-muted-foreground mb-4">
+              You haven't saved any listings yet. Tap the heart on a property or service to keep it here.
+            </p>
+            <Button onClick={() => navigate("/")}>Browse Properties</Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {savedListings.map((listing) =>
+              listing.listing_type === "property" ? (
+                <PropertyCard
+                  key={listing.id}
+                  property={listing}
+                  onEnquire={setSelectedListing}
+                  isFavorite
+                  onToggleFavorite={(property) => toggleFavorite(property.id)}
+                />
+              ) : (
+                <ServiceCard
+                  key={listing.id}
+                  service={listing}
+                  onEnquire={setSelectedListing}
+                  isFavorite
+                  onToggleFavorite={(service) => toggleFavorite(service.id)}
+                />
+              )
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Enquiry Dialog */}
+      <Dialog open={!!selectedListing} onOpenChange={() => setSelectedListing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Send an Enquiry</DialogTitle>
+            <DialogDescription>
+              {selectedListing?.title}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="message">Message (Optional)</Label>
+              <Textarea
+                id="message"
+                value={enquiryMessage}
+                onChange={(e) => setEnquiryMessage(e.target.value)}
+                placeholder="Any specific questions or requirements..."
+                rows={4}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Your contact details will be shared with our team who will get back to you shortly.
+            </p>
+            <Button
+              onClick={submitEnquiry}
+              className="w-full"
+              size="lg"
+              disabled={isEnquiring}
+            >
+              {isEnquiring ? "Submitting..." : "Submit Enquiry"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import Navbar from "@/components/Navbar";
+import { useAuth } from "@/hooks/use-auth";
+import { BellRing, Search, Trash2 } from "lucide-react";
+import { describeSavedSearch, savedSearchPath, type SavedSearch } from "@/lib/saved-searches";
+
+export default function SavedSearches() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchToDelete, setSearchToDelete] = useState<SavedSearch | null>(null);
+
+  // RequireAuth only renders this page for signed-in users
+  const userId = user?.id;
+  useEffect(() => {
+    if (userId) loadSearches(userId);
+  }, [userId]);
+
+  const loadSearches = async (userId: string) => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("saved_searches")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setSearches(data || []);
+    } catch (error) {
+      console.error("Load saved searches error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load saved searches",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteSearch = async (search: SavedSearch) => {
+    try {
+      const { error } = await supabase
+        .from("saved_searches")
+        .delete()
+        .eq("id", search.id);
+
+      if (error) throw error;
+
+      setSearches((current) => current.filter((item) => item.id !== search.id));
+      toast({
+        title: "Success",
+        description: "Saved search deleted. You will no longer get alerts for it.",
+      });
+    } catch (error) {
+      console.error("Delete saved search error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to delete saved search",
+      });
+    } finally {
+      setSearchToDelete(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center text-2xl">
+              <BellRing className="w-6 h-6 mr-2 text-primary" />
+              Saved Searches
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              You get a notification whenever a newly listed property or service matches one of these searches.
+            </p>
+          </CardHeader>
+        </Card>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Loading saved searches...</p>
+          </div>
+        ) : searches.length === 0 ? (
+          <div className="text-center py-12">
+            <BellRing className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+            <p className="text-muted-foreground mb-4">
+              You haven't saved any searches yet. Use "Save search" while browsing to get alerts for new listings.
+            </p>
+            <Button onClick={() => navigate("/")}>Browse Properties</Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {searches.map((search) => (
+              <Card key={search.id}>
+                <CardContent className="pt-6">
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="space-y-2">
+                      <h3 className="font-semibold text-lg">{search.name}</h3>
+                      <div className="flex flex-wrap gap-2">
+                        {describeSavedSearch(search).map((part) => (
+                          <Badge key={part} variant="outline">{part}</Badge>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Saved on {formatDate(search.created_at)}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => navigate(savedSearchPath(search))}>
+                        <Search className="w-4 h-4 mr-2" />
+                        View results
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setSearchToDelete(search)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!searchToDelete} onOpenChange={() => setSearchToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete saved search?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will stop receiving alerts for "{searchToDelete?.name}".
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => searchToDelete && handleDeleteSearch(searchToDelete)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
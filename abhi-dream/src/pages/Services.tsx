@@ -1,10 +1,19 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { supabase } from "@/integrations/supabase/client";
+import { invokeFunction } from "@/integrations/api/client";
 import { toast } from "@/hooks/use-toast";
 import Navbar from "@/components/Navbar";
+import { useAuth } from "@/hooks/use-auth";
 import ServiceCard from "@/components/ServiceCard";
+import InfiniteScrollTrigger from "@/components/InfiniteScrollTrigger";
+import SaveSearchButton from "@/components/SaveSearchButton";
+import GuestTrackingLinkDialog from "@/components/GuestTrackingLinkDialog";
+import HoneypotField from "@/components/HoneypotField";
+import { useListingFeed } from "@/hooks/use-listing-feed";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useDebounce } from "@/hooks/use-debounce";
+import { guestEnquirySchema, submitGuestEnquiry } from "@/lib/guest-enquiries";
 import { Briefcase, Search } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -17,77 +26,51 @@ import {
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { z } from "zod";
-
-const guestEnquirySchema = z.object({
-  name: z.string().trim().min(1, "Name is required").max(100),
-  phone: z.string().trim().min(10, "Valid phone number is required").max(15),
-  email: z.string().trim().email("Valid email is required").max(255),
-  message: z.string().trim().max(1000, "Message must be less than 1000 characters"),
-});
-
-interface Service {
-  id: string;
-  title: string;
-  description: string;
-  price: number;
-  service_type: string;
-  status: string;
-  images?: string[];
-  address?: string;
-}
+import { LISTING_TYPES, listingTypeLabels, type Listing, type ListingType } from "@/lib/listings";
+import { toSavedSearchCriteria } from "@/lib/saved-searches";
 
 export default function Services() {
   const navigate = useNavigate();
-  const [services, setServices] = useState<Service[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [user, setUser] = useState<any>(null);
-  const [selectedService, setSelectedService] = useState<Service | null>(null);
+  // Saved searches link here with ?q= and ?type=
+  const [searchParams] = useSearchParams();
+  const initialType = searchParams.get("type") ?? "";
+  const [searchQuery, setSearchQuery] = useState(searchParams.get("q") ?? "");
+  const { user, isGuest } = useAuth();
+  const [selectedService, setSelectedService] = useState<Listing | null>(null);
   const [enquiryMessage, setEnquiryMessage] = useState("");
   const [isEnquiring, setIsEnquiring] = useState(false);
-  const [activeTab, setActiveTab] = useState("all");
-  const [isGuest, setIsGuest] = useState(false);
+  const [activeTab, setActiveTab] = useState(
+    LISTING_TYPES.includes(initialType as ListingType) ? initialType : "all"
+  );
+  const [trackingToken, setTrackingToken] = useState<string | null>(null);
   const [enquiryData, setEnquiryData] = useState({
     name: "",
     phone: "",
     email: "",
     message: "",
+    website: "",
   });
 
-  useEffect(() => {
-    checkUser();
-    loadServices();
-  }, []);
-
-  const checkUser = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    setUser(session?.user ?? null);
-    setIsGuest(session?.user?.is_anonymous || false);
-  };
-
-  const loadServices = async () => {
-    setIsLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from("services")
-        .select("*")
-        .order("created_at", { ascending: false });
+  const debouncedQuery = useDebounce(searchQuery.trim());
+  const {
+    listings: services,
+    isLoading,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+  } = useListingFeed(
+    {
+      _query: debouncedQuery || undefined,
+      _listing_types: activeTab === "all" ? undefined : [activeTab],
+      _sort: debouncedQuery ? "relevance" : "newest",
+    },
+    "Failed to load services"
+  );
 
-      if (error) throw error;
-      setServices(data || []);
-    } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Failed to load services",
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const signedInUserId = user && !isGuest ? user.id : null;
+  const { favoriteIds, toggleFavorite } = useFavorites(signedInUserId);
 
-  const handleEnquire = (service: Service) => {
+  const handleEnquire = (service: Listing) => {
     setSelectedService(service);
   };
 
@@ -109,36 +92,22 @@ export default function Services() {
           return;
         }
 
-        // Insert directly for guests
-        const { error } = await supabase.from("enquiries").insert({
-          service_id: selectedService.id,
-          service_type: selectedService.service_type,
-          user_name: enquiryData.name,
-          user_email: enquiryData.email,
-          user_phone: enquiryData.phone,
+        // Guests get a tracking link instead of an account to follow the enquiry
+        const token = await submitGuestEnquiry({
+          listingId: selectedService.id,
+          name: enquiryData.name,
+          email: enquiryData.email,
+          phone: enquiryData.phone,
           message: enquiryData.message,
-          is_guest: true,
+          website: enquiryData.website,
         });
-
-        if (error) throw error;
+        setTrackingToken(token);
       } else {
         // Regular user flow
-        const { data: { session } } = await supabase.auth.getSession();
-        if (!session?.access_token) throw new Error("Not authenticated");
-
-        const response = await supabase.functions.invoke("send-enquiry", {
-          body: {
-            service_id: selectedService.id,
-            service_title: selectedService.title,
-            service_type: selectedService.service_type,
-            message: enquiryMessage,
-          },
-          headers: {
-            Authorization: `Bearer ${session.access_token}`,
-          },
+        await invokeFunction("send-enquiry", {
+          listing_id: selectedService.id,
+          message: enquiryMessage,
         });
-
-        if (response.error) throw response.error;
       }
 
       toast({
@@ -148,7 +117,7 @@ export default function Services() {
 
       setSelectedService(null);
       setEnquiryMessage("");
-      setEnquiryData({ name: "", phone: "", email: "", message: "" });
+      setEnquiryData({ name: "", phone: "", email: "", message: "", website: "" });
     } catch (error: any) {
       console.error("Enquiry error:", error);
       toast({
@@ -161,13 +130,6 @@ export default function Services() {
     }
   };
 
-  const filteredServices = services.filter((service) => {
-    const matchesSearch = service.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      service.description.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesTab = activeTab === "all" || service.service_type === activeTab;
-    return matchesSearch && matchesTab;
-  });
-
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
@@ -214,11 +176,22 @@ export default function Services() {
           </TabsList>
         </Tabs>
 
+        <div className="flex justify-end mb-6">
+          <SaveSearchButton
+            userId={signedInUserId}
+            criteria={toSavedSearchCriteria({
+              _query: searchQuery,
+              _listing_types: activeTab === "all" ? undefined : [activeTab],
+            })}
+            defaultName={searchQuery.trim() || (activeTab === "all" ? "All services" : listingTypeLabels[activeTab])}
+          />
+        </div>
+
         {isLoading ? (
           <div className="text-center py-12">
             <p className="text-muted-foreground">Loading services...</p>
           </div>
-        ) : filteredServices.length === 0 ? (
+        ) : services.length === 0 ? (
           <div className="text-center py-12">
             <Briefcase className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
             <p className="text-muted-foreground text-lg">
@@ -227,15 +200,23 @@ export default function Services() {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredServices.map((service) => (
+            {services.map((service) => (
               <ServiceCard
                 key={service.id}
                 service={service}
                 onEnquire={handleEnquire}
+                isFavorite={favoriteIds.has(service.id)}
+                onToggleFavorite={(listing) => toggleFavorite(listing.id)}
               />
             ))}
           </div>
         )}
+
+        <InfiniteScrollTrigger
+          hasMore={!isLoading && hasNextPage}
+          isLoading={isFetchingNextPage}
+          onLoadMore={fetchNextPage}
+        />
       </section>
 
       {/* Enquiry Dialog */}
@@ -278,6 +259,7 @@ export default function Services() {
                     placeholder="Enter your email"
                   />
                 </div>
+                <HoneypotField value={enquiryData.website} onChange={(website) => setEnquiryData({ ...enquiryData, website })} />
               </>
             )}
             <div className="space-y-2">
@@ -310,6 +292,8 @@ export default function Services() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <GuestTrackingLinkDialog token={trackingToken} onClose={() => setTrackingToken(null)} />
     </div>
   );
 }
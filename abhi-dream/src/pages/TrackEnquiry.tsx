@@ -0,0 +1,256 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { invokeFunction, type TrackedEnquiry } from "@/integrations/api/client";
+import { toast } from "@/hooks/use-toast";
+import Navbar from "@/components/Navbar";
+import { useAuth } from "@/hooks/use-auth";
+import { claimGuestEnquiries } from "@/lib/guest-enquiries";
+import { listingTypeLabels } from "@/lib/listings";
+import EnquiryStatusTimeline from "@/components/EnquiryStatusTimeline";
+import { enquiryStatusVariant, formatEnquiryStatus, isEnquiryOpen } from "@/lib/enquiry-status";
+import { cn } from "@/lib/utils";
+import { Calendar, FolderInput, History, Inbox, MessageSquare, Send } from "lucide-react";
+
+export default function TrackEnquiry() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user, isGuest } = useAuth();
+  const [tracking, setTracking] = useState<TrackedEnquiry | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [input, setInput] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [tracking?.messages]);
+
+  // No session is needed: the token in the link is what grants access
+  const loadEnquiry = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setTracking(await invokeFunction("track-enquiry", { token }));
+    } catch (error) {
+      console.error("Track enquiry error:", error);
+      setTracking(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadEnquiry();
+  }, [loadEnquiry]);
+
+  const sendReply = async () => {
+    const message = input.trim();
+    if (!message || isSending) return;
+
+    setIsSending(true);
+    try {
+      setTracking(await invokeFunction("track-enquiry", { token, message }));
+      setInput("");
+    } catch (error) {
+      console.error("Send reply error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send message",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const claimEnquiry = async () => {
+    if (!token) return;
+
+    setIsClaiming(true);
+    try {
+      if ((await claimGuestEnquiries([token])) === 0) {
+        throw new Error("This enquiry can no longer be added to an account");
+      }
+      toast({
+        title: "Enquiry added",
+        description: "Follow it from My Enquiries from now on.",
+      });
+      navigate("/my-enquiries");
+    } catch (error) {
+      console.error("Claim enquiry error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add the enquiry to your account",
+      });
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const enquiry = tracking?.enquiry;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Loading enquiry...</p>
+          </div>
+        ) : !tracking || !enquiry ? (
+          <div className="text-center py-12">
+            <Inbox className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+            <p className="text-muted-foreground">This tracking link is invalid or the enquiry no longer exists</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {user && !isGuest && (
+              <Card>
+                <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pt-6">
+                  <p className="text-sm text-muted-foreground">
+                    Sent this enquiry as a guest? Add it to your account to follow it from My Enquiries.
+                  </p>
+                  <Button variant="outline" onClick={claimEnquiry} disabled={isClaiming}>
+                    <FolderInput className="w-4 h-4 mr-2" />
+                    {isClaiming ? "Adding..." : "Add to My Enquiries"}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="text-2xl">{enquiry.listings?.title || "Listing no longer available"}</CardTitle>
+                    {enquiry.listings && (
+                      <Badge variant="outline" className="mt-2">
+                        {listingTypeLabels[enquiry.listings.listing_type] || enquiry.listings.listing_type}
+                      </Badge>
+                    )}
+                    {enquiry.created_at && (
+                      <p className="text-sm text-muted-foreground flex items-center mt-2">
+                        <Calendar className="w-3 h-3 mr-1" />
+                        {formatDate(enquiry.created_at)}
+                      </p>
+                    )}
+                  </div>
+                  <Badge variant={enquiryStatusVariant(enquiry.status)}>
+                    {formatEnquiryStatus(enquiry.status)}
+                  </Badge>
+                </div>
+              </CardHeader>
+              {(enquiry.message || enquiry.status_reason) && (
+                <CardContent className="space-y-3 text-sm">
+                  {enquiry.message && (
+                    <div className="flex items-start p-3 bg-muted rounded-md">
+                      <MessageSquare className="w-4 h-4 mr-2 text-muted-foreground mt-0.5 flex-shrink-0" />
+                      <div>
+                        <p className="font-medium mb-1">Your message:</p>
+                        <p className="text-muted-foreground">{enquiry.message}</p>
+                      </div>
+                    </div>
+                  )}
+                  {enquiry.status_reason && (
+                    <p className="text-muted-foreground">Note from our team: {enquiry.status_reason}</p>
+                  )}
+                </CardContent>
+              )}
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center text-lg">
+                  <History className="w-5 h-5 mr-2 text-primary" />
+                  Status History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <EnquiryStatusTimeline events={tracking.history} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center text-lg">
+                  <MessageSquare className="w-5 h-5 mr-2 text-primary" />
+                  Conversation
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div ref={scrollRef} className="max-h-80 overflow-y-auto pr-2 mb-4 space-y-4">
+                  {tracking.messages.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">
+                      No messages yet. Our team will reply here.
+                    </p>
+                  ) : (
+                    tracking.messages.map((message) => {
+                      const isOwn = message.sender_role === "guest";
+                      return (
+                        <div key={message.id} className={cn("flex flex-col", isOwn ? "items-end" : "items-start")}>
+                          <span className="text-xs font-medium mb-1">{isOwn ? "You" : "Our team"}</span>
+                          <div
+                            className={cn(
+                              "max-w-[80%] rounded-lg px-4 py-2",
+                              isOwn ? "bg-primary text-primary-foreground" : "bg-muted"
+                            )}
+                          >
+                            <p className="text-sm whitespace-pre-wrap">{message.message}</p>
+                          </div>
+                          {message.created_at && (
+                            <span className="text-xs text-muted-foreground mt-1">{formatDate(message.created_at)}</span>
+                          )}
+                        </div>
+                      );
+                    })
+                  )}
+                </div>
+
+                {isEnquiryOpen(enquiry.status) ? (
+                  <div className="flex gap-2">
+                    <Textarea
+                      value={input}
+                      onChange={(e) => setInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && !e.shiftKey) {
+                          e.preventDefault();
+                          sendReply();
+                        }
+                      }}
+                      placeholder="Type your message..."
+                      rows={2}
+                      maxLength={2000}
+                      disabled={isSending}
+                    />
+                    <Button onClick={sendReply} disabled={isSending || !input.trim()} className="self-end">
+                      <Send className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">This enquiry is closed and no longer accepts replies.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import Navbar from "@/components/Navbar";
+import { useAuth } from "@/hooks/use-auth";
+import { claimGuestEnquiries } from "@/lib/guest-enquiries";
+import { passwordSchema, phoneSchema } from "@/lib/profile";
+import { MailCheck, UserPlus } from "lucide-react";
+import { z } from "zod";
+
+const detailsSchema = z.object({
+  fullName: z.string().min(2, "Full name must be at least 2 characters"),
+  email: z.string().email("Invalid email address"),
+  phone: phoneSchema,
+});
+
+// Auth only allows a password once the guest has an email, so the upgrade is
+// two steps. `needs_password` in the user metadata remembers the second one
+// when it resumes from the email confirmation link.
+type Step = "details" | "confirm-email" | "password";
+
+export default function UpgradeAccount() {
+  const navigate = useNavigate();
+  // RequireAuth only renders this page for signed-in users, guests included
+  const { user, isGuest } = useAuth();
+  const [isAwaitingConfirmation, setIsAwaitingConfirmation] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    fullName: "",
+    email: "",
+    phone: "",
+  });
+  const [password, setPassword] = useState("");
+
+  // The session already says which step the upgrade is at; only the wait for
+  // the confirmation email is not visible on it
+  const step: Step | null = isGuest
+    ? (isAwaitingConfirmation ? "confirm-email" : "details")
+    : user?.user_metadata?.needs_password
+      ? "password"
+      : null;
+
+  const handleDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = detailsSchema.safeParse(formData);
+    if (!validation.success) {
+      toast({
+        variant: "destructive",
+        title: "Validation Error",
+        description: validation.error.errors[0].message,
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.auth.updateUser(
+        {
+          email: validation.data.email,
+          data: {
+            full_name: validation.data.fullName,
+            phone: validation.data.phone,
+            needs_password: true,
+          },
+        },
+        { emailRedirectTo: `${window.location.origin}/upgrade-account` }
+      );
+
+      if (error) throw error;
+
+      // Without email confirmation the account is upgraded straight away and
+      // the session moves on to the password step by itself
+      setIsAwaitingConfirmation(data.user.is_anonymous ?? false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Upgrade failed",
+        description: error instanceof Error ? error.message : "Unable to create your account",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = passwordSchema.safeParse(password);
+    if (!validation.success) {
+      toast({
+        variant: "destructive",
+        title: "Validation Error",
+        description: validation.error.errors[0].message,
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { error } = await supabase.auth.updateUser({
+        password: validation.data,
+        data: { needs_password: false },
+      });
+
+      if (error) throw error;
+
+      // The current token still says the session is anonymous
+      await supabase.auth.refreshSession();
+
+      // The account exists either way; enquiries left behind can still be
+      // claimed from their tracking links
+      const claimed = await claimGuestEnquiries().catch((error) => {
+        console.error("Claim guest enquiries error:", error);
+        return 0;
+      });
+
+      toast({
+        title: "Account created!",
+        description: claimed > 0
+          ? "Enquiries you sent as a guest from this browser are now in My Enquiries."
+          : "Open a guest enquiry's tracking link to add it to My Enquiries.",
+      });
+      navigate("/my-enquiries");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Upgrade failed",
+        description: error instanceof Error ? error.message : "Unable to set your password",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Full accounts have nothing to upgrade
+  if (!step && !isLoading) {
+    return <Navigate to="/" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-2xl">
+              <UserPlus className="w-6 h-6 mr-2 text-primary" />
+              Create Your Account
+            </CardTitle>
+            <CardDescription>
+              Keep your guest enquiries and unlock chat, saved listings and alerts.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {step === "details" && (
+              <form onSubmit={handleDetails} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="upgrade-name">Full Name</Label>
+                  <Input
+                    id="upgrade-name"
+                    type="text"
+                    placeholder="John Doe"
+                    value={formData.fullName}
+                    onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="upgrade-email">Email</Label>
+                  <Input
+                    id="upgrade-email"
+                    type="email"
+                    placeholder="you@example.com"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="upgrade-phone">Phone</Label>
+                  <Input
+                    id="upgrade-phone"
+                    type="tel"
+                    placeholder="9392747366"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? "Saving..." : "Continue"}
+                </Button>
+              </form>
+            )}
+
+            {step === "confirm-email" && (
+              <div className="text-center py-6">
+                <MailCheck className="w-12 h-12 mx-auto mb-4 text-primary" />
+                <p className="font-medium">Check your inbox</p>
+                <p className="text-sm text-muted-foreground">
+                  We sent a confirmation link to {formData.email}. Open it to choose your password.
+                </p>
+              </div>
+            )}
+
+            {step === "password" && (
+              <form onSubmit={handlePassword} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="upgrade-password">Password</Label>
+                  <Input
+                    id="upgrade-password"
+                    type="password"
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? "Creating account..." : "Create Account"}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
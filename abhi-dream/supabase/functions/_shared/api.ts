@@ -0,0 +1,167 @@
+// Request schemas and response shapes of the functions the web app calls.
+// The functions validate with these schemas and the app's typed client
+// (src/integrations/api/client.ts) derives its types from them, so both
+// sides change together. Only import "zod" here: it resolves to deno.land
+// through import_map.json in the functions and to node_modules in the app.
+import { z } from "zod";
+
+// Statuses staff can move an enquiry to. Which moves are allowed from the
+// current status is enforced by the enforce_enquiry_status trigger.
+export const STAFF_STATUSES = ["contacted", "site_visit_scheduled", "negotiation", "closed_won", "closed_lost", "rejected"] as const;
+export const REASON_REQUIRED_STATUSES: readonly string[] = ["rejected", "closed_lost"];
+
+export const APP_ROLES = ["admin", "employee", "user"] as const;
+export const USERS_PAGE_SIZE = 20;
+
+export const chatSchema = z.object({
+  messages: z.array(z.object({
+    role: z.enum(["user", "assistant"]),
+    content: z.string().max(4000, "Message too long")
+  })).min(1, "No messages to send").max(50, "Conversation too long")
+});
+
+// Either one listing, or a batch of listings that have never been geocoded
+export const geocodeListingSchema = z.union([
+  z.object({
+    listing_id: z.string().uuid("Invalid listing ID")
+  }),
+  z.object({
+    backfill: z.literal(true),
+    limit: z.number().int().min(1).max(50).optional()
+  })
+]);
+
+export const sendEnquirySchema = z.object({
+  listing_id: z.string().uuid("Invalid listing ID"),
+  message: z.string().trim().max(2000, "Message too long")
+});
+
+export const guestEnquirySchema = z.object({
+  listing_id: z.string().uuid("Invalid listing ID"),
+  name: z.string().trim().min(2, "Name must be at least 2 characters").max(100, "Name too long"),
+  phone: z.string().trim().regex(/^[0-9+\s()-]{10,15}$/, "Invalid phone number format"),
+  email: z.string().trim().toLowerCase().email("Invalid email address").max(255, "Email too long"),
+  message: z.string().trim().min(10, "Message must be at least 10 characters").max(2000, "Message too long"),
+  // Honeypot: hidden from people, so anything in it was typed by a bot
+  website: z.string().max(255).optional(),
+  captcha_token: z.string().max(4096).optional()
+});
+
+export const sendMessageSchema = z.object({
+  enquiry_id: z.string().uuid("Invalid enquiry ID"),
+  message: z.string().trim().min(1, "Message cannot be empty").max(2000, "Message too long")
+});
+
+const trackingTokenSchema = z.string().regex(/^[0-9a-f]{64}$/, "Invalid tracking link");
+
+export const trackEnquirySchema = z.object({
+  token: trackingTokenSchema,
+  message: z.string().trim().min(1, "Message cannot be empty").max(2000, "Message too long").optional()
+});
+
+// Holding an enquiry's tracking link is what proves it was sent by the caller
+export const claimEnquiriesSchema = z.object({
+  tokens: z.array(trackingTokenSchema).min(1, "No enquiries to claim").max(50, "Too many enquiries")
+});
+
+export const statusUpdateSchema = z.object({
+  enquiry_id: z.string().uuid("Invalid enquiry ID"),
+  status: z.enum(STAFF_STATUSES, { errorMap: () => ({ message: `Status must be one of ${STAFF_STATUSES.join(", ")}` }) }),
+  reason: z.string().trim().max(500, "Reason must be less than 500 characters").optional()
+}).refine(
+  (data) => !REASON_REQUIRED_STATUSES.includes(data.status) || !!data.reason,
+  { message: "A reason is required for this status", path: ["reason"] }
+);
+
+const userIdSchema = z.string().uuid("Invalid user ID");
+
+export const manageUsersSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("list"),
+    search: z.string().trim().max(100, "Search too long").optional(),
+    page: z.number().int().min(0).optional()
+  }),
+  z.object({
+    action: z.literal("set_role"),
+    user_id: userIdSchema,
+    role: z.enum(APP_ROLES, { errorMap: () => ({ message: `Role must be one of ${APP_ROLES.join(", ")}` }) })
+  }),
+  z.object({
+    action: z.literal("set_disabled"),
+    user_id: userIdSchema,
+    disabled: z.boolean()
+  }),
+  // Invites are for staff; customers sign up themselves
+  z.object({
+    action: z.literal("invite"),
+    email: z.string().trim().toLowerCase().email("Invalid email address").max(255, "Email too long"),
+    full_name: z.string().trim().min(2, "Full name must be at least 2 characters").max(100, "Name too long"),
+    phone: z.string().trim().regex(/^[0-9+\s()-]{10,15}$/, "Invalid phone number format").optional(),
+    role: z.enum(["admin", "employee"], { errorMap: () => ({ message: "Invited users must be admin or employee" }) })
+  })
+]);
+
+export interface ManagedUser {
+  id: string;
+  full_name: string;
+  email: string;
+  phone: string;
+  role: (typeof APP_ROLES)[number] | null;
+  created_at: string | null;
+  last_sign_in_at: string | null;
+  // Set for invited users; until email_confirmed they have not accepted
+  invited_at: string | null;
+  email_confirmed: boolean;
+  disabled: boolean;
+}
+
+export type ManageUsersResponse =
+  | { success: true; users: ManagedUser[]; total: number }
+  | { success: true; message: string };
+
+export interface EnquiryMessage {
+  id: string;
+  enquiry_id: string;
+  sender_id: string | null;
+  sender_role: string;
+  message: string;
+  created_at: string | null;
+}
+
+// What the tracking page may see: no staff details, no sender ids
+export interface TrackedEnquiry {
+  enquiry: {
+    id: string;
+    user_name: string;
+    message: string | null;
+    status: string | null;
+    status_reason: string | null;
+    created_at: string | null;
+    updated_at: string | null;
+    listings: { title: string; listing_type: string } | null;
+  };
+  history: { id: string; from_status: string | null; to_status: string; reason: string | null; created_at: string }[];
+  messages: Pick<EnquiryMessage, "id" | "sender_role" | "message" | "created_at">[];
+}
+
+interface Endpoint<Schema extends z.ZodTypeAny, Response> {
+  request: z.input<Schema>;
+  response: Response;
+}
+
+/** Every function the app calls with a JSON body and a JSON response */
+export interface ApiFunctions {
+  "claim-enquiries": Endpoint<typeof claimEnquiriesSchema, { success: true; claimed: number }>;
+  "geocode-listing": Endpoint<typeof geocodeListingSchema, { success: true; geocoded?: number; remaining?: number }>;
+  "manage-users": Endpoint<typeof manageUsersSchema, ManageUsersResponse>;
+  "send-enquiry": Endpoint<typeof sendEnquirySchema, { success: true; message: string }>;
+  "send-guest-enquiry": Endpoint<typeof guestEnquirySchema, { success: true; message: string; tracking_token?: string }>;
+  "send-message": Endpoint<typeof sendMessageSchema, { success: true; message: string; data: EnquiryMessage }>;
+  "track-enquiry": Endpoint<typeof trackEnquirySchema, TrackedEnquiry>;
+  "update-enquiry-status": Endpoint<typeof statusUpdateSchema, { success: true; message: string }>;
+}
+
+/** Functions that answer with a text/event-stream body */
+export interface StreamingApiFunctions {
+  chat: { request: z.input<typeof chatSchema> };
+}
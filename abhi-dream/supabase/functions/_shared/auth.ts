@@ -0,0 +1,86 @@
+import type { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { HttpError } from "./http.ts";
+
+export type AppRole = 'admin' | 'employee' | 'user';
+
+export const STAFF_ROLES: AppRole[] = ['admin', 'employee'];
+
+// Mirrors the app_permission enum; see role_permissions for who has which
+export type Permission =
+  | 'listings.create'
+  | 'listings.update'
+  | 'listings.delete'
+  | 'enquiries.handle'
+  | 'enquiries.assign'
+  | 'users.manage'
+  | 'email_outbox.process';
+
+const getBearerToken = (req: Request) =>
+  req.headers.get('Authorization')?.replace('Bearer ', '') || null;
+
+/** True when the caller authenticated with the service role key itself, e.g. a scheduled job */
+export function isServiceRoleRequest(req: Request): boolean {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceRoleKey && getBearerToken(req) === serviceRoleKey;
+}
+
+/**
+ * The signed-in user making the request: 401 without a valid session. Guest
+ * (anonymous) sessions get a 403 unless `allowAnonymous` is set.
+ */
+export async function requireUser(
+  req: Request,
+  supabaseAdmin: SupabaseClient,
+  { allowAnonymous = false }: { allowAnonymous?: boolean } = {}
+): Promise<User> {
+  const token = getBearerToken(req);
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization header');
+  }
+
+  const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !user) {
+    throw new HttpError(401, 'Invalid or expired session');
+  }
+
+  if (user.is_anonymous && !allowAnonymous) {
+    throw new HttpError(403, 'Please create an account to do this');
+  }
+
+  return user;
+}
+
+export async function getUserRoles(supabaseAdmin: SupabaseClient, userId: string): Promise<AppRole[]> {
+  const { data, error } = await supabaseAdmin
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return (data ?? []).map((row) => row.role as AppRole);
+}
+
+export async function hasPermission(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  permission: Permission
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('has_permission', {
+    _user_id: userId,
+    _permission: permission,
+  });
+
+  if (error) throw error;
+  return data === true;
+}
+
+/** 403 unless the user's role grants `permission`. */
+export async function requirePermission(
+  supabaseAdmin: SupabaseClient,
+  user: User,
+  permission: Permission
+): Promise<void> {
+  if (!(await hasPermission(supabaseAdmin, user.id, permission))) {
+    throw new HttpError(403, `Unauthorized: ${permission} permission required`);
+  }
+}
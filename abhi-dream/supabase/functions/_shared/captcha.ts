@@ -0,0 +1,27 @@
+/**
+ * Optional captcha check for public endpoints. Off until CAPTCHA_SECRET is
+ * set. CAPTCHA_VERIFY_URL picks the provider and defaults to Cloudflare
+ * Turnstile; hCaptcha and reCAPTCHA take the same form fields.
+ */
+export async function verifyCaptcha(token: string | undefined, remoteIp: string | null): Promise<boolean> {
+  const secret = Deno.env.get('CAPTCHA_SECRET');
+  if (!secret) return true;
+  if (!token) return false;
+
+  const body = new URLSearchParams({ secret, response: token });
+  if (remoteIp) body.set('remoteip', remoteIp);
+
+  try {
+    const response = await fetch(
+      Deno.env.get('CAPTCHA_VERIFY_URL') ?? 'https://challenges.cloudflare.com/turnstile/v0/siteverify',
+      { method: 'POST', body }
+    );
+    if (!response.ok) return false;
+
+    const result = await response.json();
+    return result.success === true;
+  } catch (error) {
+    console.error('Captcha verification error:', error);
+    return false;
+  }
+}
@@ -0,0 +1,128 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { getEmailTransport } from "./transports.ts";
+import { renderEmail, type EmailTemplateName, type EmailTemplates } from "./templates.ts";
+
+export { appUrl, customerEnquiryLink } from "./templates.ts";
+
+// Which email_preferences column lets a user opt out of each template
+const preferenceColumns: Record<EmailTemplateName, 'enquiry_updates' | 'new_messages' | 'new_enquiries'> = {
+  enquiry_received: 'enquiry_updates',
+  enquiry_status_changed: 'enquiry_updates',
+  new_message: 'new_messages',
+  new_enquiry: 'new_enquiries',
+};
+
+const MAX_ATTEMPTS = 5;
+
+const FIRST_ATTEMPT_LEASE_MS = 5 * 60_000;
+
+// 1, 4, 16 and 64 minutes between attempts
+const retryDelayMs = (attempts: number) => 60_000 * 4 ** (attempts - 1);
+
+interface OutboxEmail {
+  id: string;
+  to_email: string;
+  subject: string;
+  body_text: string;
+  body_html: string;
+  attempts: number;
+}
+
+interface QueueEmailOptions<K extends EmailTemplateName> {
+  to: string;
+  // Account the email is about, used for opt-outs. Null for guests.
+  userId: string | null;
+  template: K;
+  data: EmailTemplates[K];
+}
+
+async function deliver(supabaseAdmin: SupabaseClient, email: OutboxEmail): Promise<boolean> {
+  try {
+    await getEmailTransport().send({
+      to: email.to_email,
+      subject: email.subject,
+      text: email.body_text,
+      html: email.body_html,
+    });
+
+    await supabaseAdmin
+      .from('email_outbox')
+      .update({ status: 'sent', sent_at: new Date().toISOString(), attempts: email.attempts + 1, last_error: null })
+      .eq('id', email.id);
+    return true;
+  } catch (error) {
+    const attempts = email.attempts + 1;
+    const lastError = error instanceof Error ? error.message : String(error);
+    console.error(`Email ${email.id} failed (attempt ${attempts}):`, lastError);
+
+    await supabaseAdmin
+      .from('email_outbox')
+      .update({
+        status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+        attempts,
+        last_error: lastError,
+        next_attempt_at: new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+      })
+      .eq('id', email.id);
+    return false;
+  }
+}
+
+/**
+ * Renders an email into the outbox and makes a first delivery attempt.
+ * Never throws: email is a side channel and must not fail the request that
+ * triggered it. Failed sends are retried by the process-email-outbox function.
+ */
+export async function queueEmail<K extends EmailTemplateName>(
+  supabaseAdmin: SupabaseClient,
+  { to, userId, template, data }: QueueEmailOptions<K>
+): Promise<void> {
+  try {
+    if (userId) {
+      const column = preferenceColumns[template];
+      const { data: preferences } = await supabaseAdmin
+        .from('email_preferences')
+        .select(column)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (preferences && preferences[column] === false) return;
+    }
+
+    const rendered = renderEmail(template, data);
+    const { data: email, error } = await supabaseAdmin
+      .from('email_outbox')
+      .insert({
+        to_email: to,
+        user_id: userId,
+        template,
+        subject: rendered.subject,
+        body_text: rendered.text,
+        body_html: rendered.html,
+        // Keep the outbox worker away while the first attempt below is in flight
+        next_attempt_at: new Date(Date.now() + FIRST_ATTEMPT_LEASE_MS).toISOString(),
+      })
+      .select('id, to_email, subject, body_text, body_html, attempts')
+      .single();
+
+    if (error) throw error;
+    await deliver(supabaseAdmin, email);
+  } catch (error) {
+    console.error(`Error queueing ${template} email:`, error);
+  }
+}
+
+/** Retries due emails from the outbox. Returns how many were sent and how many failed again. */
+export async function processEmailOutbox(supabaseAdmin: SupabaseClient, limit: number) {
+  const { data: emails, error } = await supabaseAdmin.rpc('claim_email_outbox', { _limit: limit });
+  if (error) throw error;
+
+  let sent = 0;
+  let failed = 0;
+  for (const email of (emails ?? []) as OutboxEmail[]) {
+    if (await deliver(supabaseAdmin, email)) sent++;
+    else failed++;
+  }
+
+  return { sent, failed };
+}
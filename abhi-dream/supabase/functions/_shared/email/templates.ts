@@ -0,0 +1,123 @@
+// Data each email template needs. `link` points back into the app: the
+// enquiry page for account holders, the tracking page for guests.
+export interface EmailTemplates {
+  enquiry_received: { name: string; listingTitle: string; link?: string };
+  enquiry_status_changed: { name: string; listingTitle: string; status: string; reason?: string; link?: string };
+  new_message: { name: string; listingTitle: string; senderLabel: string; message: string; link?: string };
+  new_enquiry: { customerName: string; listingTitle: string; message: string; link?: string };
+}
+
+export type EmailTemplateName = keyof EmailTemplates;
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailContent {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  link?: string;
+  linkLabel: string;
+}
+
+const APP_NAME = 'Elite Properties';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const appUrl = (path: string) => {
+  const baseUrl = Deno.env.get('APP_URL');
+  return baseUrl ? `${baseUrl.replace(/\/$/, '')}${path}` : undefined;
+};
+
+// Where the customer follows an enquiry. Guests have no account, so they get
+// their secret tracking link instead.
+export const customerEnquiryLink = (enquiry: { id: string; user_id: string | null; tracking_token: string | null }) => {
+  if (enquiry.user_id) return appUrl(`/enquiries/${enquiry.id}`);
+  return enquiry.tracking_token ? appUrl(`/track/${enquiry.tracking_token}`) : undefined;
+};
+
+// Every email shares the same layout: greeting, paragraphs, an optional button
+// and a footer pointing at the email preferences page.
+function layout({ subject, greeting, paragraphs, link, linkLabel }: EmailContent): RenderedEmail {
+  const preferencesLink = appUrl('/email-preferences');
+
+  const text = [
+    greeting,
+    '',
+    ...paragraphs.flatMap((paragraph) => [paragraph, '']),
+    ...(link ? [`${linkLabel}: ${link}`, ''] : []),
+    `— The ${APP_NAME} team`,
+    ...(preferencesLink ? ['', `Manage your email preferences: ${preferencesLink}`] : []),
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+    <p>${escapeHtml(greeting)}</p>
+    ${paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join('\n    ')}
+    ${link ? `<p><a href="${escapeHtml(link)}" style="display: inline-block; padding: 10px 16px; background: #3b82f6; color: #ffffff; text-decoration: none; border-radius: 6px;">${escapeHtml(linkLabel)}</a></p>` : ''}
+    <p>— The ${APP_NAME} team</p>
+    ${preferencesLink ? `<p style="font-size: 12px; color: #6b7280;"><a href="${escapeHtml(preferencesLink)}">Manage your email preferences</a></p>` : ''}
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+const renderers: { [K in EmailTemplateName]: (data: EmailTemplates[K]) => RenderedEmail } = {
+  enquiry_received: (data) => layout({
+    subject: `We received your enquiry about ${data.listingTitle}`,
+    greeting: `Hi ${data.name},`,
+    paragraphs: [
+      `Thanks for your interest in ${data.listingTitle}. Our team has received your enquiry and will get back to you shortly.`,
+    ],
+    link: data.link,
+    linkLabel: 'View your enquiry',
+  }),
+
+  enquiry_status_changed: (data) => layout({
+    subject: `Update on your enquiry about ${data.listingTitle}`,
+    greeting: `Hi ${data.name},`,
+    paragraphs: [
+      `Your enquiry about ${data.listingTitle} is now: ${data.status}.`,
+      ...(data.reason ? [`Note from our team: ${data.reason}`] : []),
+    ],
+    link: data.link,
+    linkLabel: 'View your enquiry',
+  }),
+
+  new_message: (data) => layout({
+    subject: `New message about ${data.listingTitle}`,
+    greeting: `Hi ${data.name},`,
+    paragraphs: [
+      `${data.senderLabel} sent you a message about ${data.listingTitle}:`,
+      data.message,
+    ],
+    link: data.link,
+    linkLabel: 'Reply in the conversation',
+  }),
+
+  new_enquiry: (data) => layout({
+    subject: `New enquiry: ${data.listingTitle}`,
+    greeting: 'Hello,',
+    paragraphs: [
+      `${data.customerName} has enquired about ${data.listingTitle}.`,
+      ...(data.message ? [`Message: ${data.message}`] : []),
+    ],
+    link: data.link,
+    linkLabel: 'Open the enquiry',
+  }),
+};
+
+export function renderEmail<K extends EmailTemplateName>(template: K, data: EmailTemplates[K]): RenderedEmail {
+  return renderers[template](data);
+}
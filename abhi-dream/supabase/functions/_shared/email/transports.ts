@@ -0,0 +1,109 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  // Resolves once the message has been handed off, throws if it was not
+  send(message: EmailMessage): Promise<void>;
+}
+
+const getFromAddress = () => Deno.env.get('EMAIL_FROM') ?? 'Elite Properties <no-reply@example.com>';
+
+// Any SMTP relay (SendGrid, SES, Mailgun, Gmail...). A client is opened per
+// message because edge function instances are short lived.
+const smtpTransport: EmailTransport = {
+  async send(message) {
+    const hostname = Deno.env.get('SMTP_HOST');
+    if (!hostname) {
+      throw new Error('SMTP_HOST is not configured');
+    }
+
+    const port = Number(Deno.env.get('SMTP_PORT') ?? '587');
+    const username = Deno.env.get('SMTP_USERNAME');
+    const password = Deno.env.get('SMTP_PASSWORD');
+
+    const client = new SMTPClient({
+      connection: {
+        hostname,
+        port,
+        // Port 465 uses implicit TLS, everything else upgrades with STARTTLS
+        tls: port === 465,
+        auth: username && password ? { username, password } : undefined,
+      },
+    });
+
+    try {
+      await client.send({
+        from: getFromAddress(),
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    } finally {
+      await client.close();
+    }
+  },
+};
+
+// Prints emails to the function logs instead of sending them. For local
+// development and tests.
+const consoleTransport: EmailTransport = {
+  send(message) {
+    console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n${message.text}`);
+    return Promise.resolve();
+  },
+};
+
+// Writes each email to EMAIL_FILE_DIR (default /tmp/emails) as an .eml file
+// that can be opened in a mail client. For local development and tests.
+const fileTransport: EmailTransport = {
+  async send(message) {
+    const directory = Deno.env.get('EMAIL_FILE_DIR') ?? '/tmp/emails';
+    await Deno.mkdir(directory, { recursive: true });
+
+    const boundary = crypto.randomUUID();
+    const eml = [
+      `From: ${getFromAddress()}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      message.html,
+      `--${boundary}--`,
+      '',
+    ].join('\r\n');
+
+    await Deno.writeTextFile(`${directory}/${Date.now()}-${boundary}.eml`, eml);
+  },
+};
+
+const transports: Record<string, EmailTransport> = {
+  smtp: smtpTransport,
+  console: consoleTransport,
+  file: fileTransport,
+};
+
+// Selected with the EMAIL_TRANSPORT secret, defaults to SMTP
+export function getEmailTransport(): EmailTransport {
+  const name = Deno.env.get('EMAIL_TRANSPORT') ?? 'smtp';
+  const transport = transports[name];
+  if (!transport) {
+    throw new Error(`Unknown email transport: ${name}`);
+  }
+  return transport;
+}
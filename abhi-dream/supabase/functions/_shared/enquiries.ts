@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { appUrl, queueEmail } from "./email/outbox.ts";
+
+interface EnquiryRef {
+  id: string;
+  assigned_to: string | null;
+}
+
+interface StaffRecipient {
+  id: string;
+  email: string;
+  full_name: string;
+}
+
+/**
+ * The staff to tell about activity on an enquiry: its assignee, or everyone
+ * who handles enquiries while it is unassigned.
+ */
+async function staffRecipients(supabaseAdmin: SupabaseClient, assignedTo: string | null): Promise<StaffRecipient[]> {
+  const { data: handlerIds } = await supabaseAdmin.rpc('enquiry_handlers');
+  const staffIds = ((handlerIds ?? []) as string[]).filter((id) => !assignedTo || id === assignedTo);
+  if (staffIds.length === 0) return [];
+
+  const { data: staffProfiles } = await supabaseAdmin
+    .from('profiles')
+    .select('id, email, full_name')
+    .in('id', staffIds);
+
+  return staffProfiles ?? [];
+}
+
+/**
+ * Emails staff about a new enquiry. Goes to the same people the
+ * notify_new_enquiry trigger notifies in-app.
+ */
+export async function emailStaffAboutEnquiry(
+  supabaseAdmin: SupabaseClient,
+  enquiry: EnquiryRef,
+  details: { customerName: string; listingTitle: string; message: string }
+): Promise<void> {
+  const staff = await staffRecipients(supabaseAdmin, enquiry.assigned_to);
+
+  await Promise.all(
+    staff.map((staffProfile) =>
+      queueEmail(supabaseAdmin, {
+        to: staffProfile.email,
+        userId: staffProfile.id,
+        template: 'new_enquiry',
+        data: {
+          ...details,
+          link: appUrl(`/enquiries/${enquiry.id}`),
+        },
+      })
+    )
+  );
+}
+
+/**
+ * Tells staff about a customer's or guest's message, in-app and by email, so
+ * replies on unassigned enquiries reach someone too.
+ */
+export async function notifyStaffAboutMessage(
+  supabaseAdmin: SupabaseClient,
+  enquiry: EnquiryRef,
+  details: { listingTitle: string; senderLabel: string; message: string }
+): Promise<void> {
+  const staff = await staffRecipients(supabaseAdmin, enquiry.assigned_to);
+  if (staff.length === 0) return;
+
+  await supabaseAdmin
+    .from('notifications')
+    .insert(staff.map((staffProfile) => ({
+      user_id: staffProfile.id,
+      title: 'New message',
+      message: `${details.senderLabel} replied about ${details.listingTitle}`,
+      type: 'new_message',
+      related_id: enquiry.id,
+    })));
+
+  await Promise.all(
+    staff.map((staffProfile) =>
+      queueEmail(supabaseAdmin, {
+        to: staffProfile.email,
+        userId: staffProfile.id,
+        template: 'new_message',
+        data: {
+          name: staffProfile.full_name,
+          ...details,
+          link: appUrl(`/enquiries/${enquiry.id}`),
+        },
+      })
+    )
+  );
+}
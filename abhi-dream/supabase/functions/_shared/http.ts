@@ -0,0 +1,119 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import type { z } from "zod";
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-request-id',
+  'Access-Control-Expose-Headers': 'x-request-id',
+};
+
+/**
+ * An error with the status and message the caller should see. Anything else
+ * thrown from a handler is logged and answered with a bare 500.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface FunctionContext {
+  // Echoed in the X-Request-Id header and in error bodies, and prefixed to
+  // log lines, so a report from the app can be found in the function logs
+  requestId: string;
+  // Service role client: bypasses RLS, so handlers must check access themselves
+  supabaseAdmin: SupabaseClient;
+}
+
+type Handler = (req: Request, context: FunctionContext) => Promise<Response>;
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+}
+
+function errorResponse(error: HttpError, requestId: string): Response {
+  return jsonResponse(
+    {
+      error: error.message,
+      ...(error.details !== undefined ? { details: error.details } : {}),
+      request_id: requestId,
+    },
+    error.status
+  );
+}
+
+export function createAdminClient(): SupabaseClient {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    }
+  );
+}
+
+/**
+ * Serves an edge function: answers CORS preflights, tags the request with an
+ * id, hands the handler a service role client and maps thrown errors to JSON
+ * error responses.
+ */
+export function serveFunction(name: string, handler: Handler): void {
+  serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    const requestId = req.headers.get('x-request-id') ?? crypto.randomUUID();
+
+    let response: Response;
+    try {
+      response = await handler(req, { requestId, supabaseAdmin: createAdminClient() });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (error.status >= 500) {
+          console.error(`[${requestId}] Error in ${name} function:`, error);
+        }
+        response = errorResponse(error, requestId);
+      } else {
+        // Internal details stay in the logs
+        console.error(`[${requestId}] Error in ${name} function:`, error);
+        response = errorResponse(new HttpError(500, 'Internal server error'), requestId);
+      }
+    }
+
+    response.headers.set('X-Request-Id', requestId);
+    return response;
+  });
+}
+
+/** Checks a request body against a schema: 422 with the failed checks if it does not match. */
+export function validate<Schema extends z.ZodTypeAny>(schema: Schema, body: unknown): z.output<Schema> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new HttpError(422, 'Invalid input', result.error.errors);
+  }
+  return result.data;
+}
+
+/** Reads and validates a JSON body: 400 if it is not JSON, 422 if it does not match. */
+export async function parseBody<Schema extends z.ZodTypeAny>(req: Request, schema: Schema): Promise<z.output<Schema>> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON');
+  }
+  return validate(schema, body);
+}
@@ -0,0 +1,37 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+/**
+ * Counts a hit against `key` and returns false once it has had `maxHits` in the
+ * last `windowSeconds`. Fails open: an error in the limiter must not take the
+ * endpoint down with it.
+ */
+export async function consumeRateLimit(
+  supabaseAdmin: SupabaseClient,
+  key: string,
+  maxHits: number,
+  windowSeconds: number
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('consume_rate_limit', {
+    _key: key,
+    _max_hits: maxHits,
+    _window_seconds: windowSeconds,
+  });
+
+  if (error) {
+    console.error(`Rate limit check failed for ${key}:`, error);
+    return true;
+  }
+  return data === true;
+}
+
+// Only trust what the platform's proxy sets. Clients can send their own
+// X-Forwarded-For, which the proxy appends the address it saw to, so the last
+// entry is the only one that was not supplied by the caller. Other headers
+// such as X-Real-IP pass through untouched and are never read.
+export function getClientIp(req: Request): string | null {
+  const hops = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - 1] ?? null;
+}
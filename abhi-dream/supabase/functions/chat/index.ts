@@ -1,84 +1,51 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { chatSchema } from "../_shared/api.ts";
+import { HttpError, corsHeaders, parseBody, serveFunction } from "../_shared/http.ts";
+import { requireUser } from "../_shared/auth.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+serveFunction('chat', async (req, { requestId, supabaseAdmin }) => {
+  const { messages } = await parseBody(req, chatSchema);
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+  // Chat is for signed-in users; guests and the bare publishable key are turned away
+  await requireUser(req, supabaseAdmin);
 
-  try {
-    const { messages } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
+  const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { 
-            role: "system", 
-            content: "You are a helpful real estate assistant. Help users find properties, answer questions about real estate, and guide them through the property search process. Be friendly, professional, and informative. Keep responses concise and helpful."
-          },
-          ...messages,
-        ],
-        stream: true,
-      }),
-    });
+  if (!LOVABLE_API_KEY) {
+    throw new Error("LOVABLE_API_KEY is not configured");
+  }
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limits exceeded, please try again later." }),
-          {
-            status: 429,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "Payment required, please add funds to your workspace." }),
-          {
-            status: 402,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          }
-        );
-      }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      return new Response(
-        JSON.stringify({ error: "AI gateway error" }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
-    }
+  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${LOVABLE_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: "google/gemini-2.5-flash",
+      messages: [
+        { 
+          role: "system", 
+          content: "You are a helpful real estate assistant. Help users find properties, answer questions about real estate, and guide them through the property search process. Be friendly, professional, and informative. Keep responses concise and helpful."
+        },
+        ...messages,
+      ],
+      stream: true,
+    }),
+  });
 
-    return new Response(response.body, {
-      headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
-    });
-    
-  } catch (error) {
-    console.error("chat error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+  if (!response.ok) {
+    if (response.status === 429) {
+      throw new HttpError(429, "Rate limits exceeded, please try again later.");
+    }
+    if (response.status === 402) {
+      throw new HttpError(402, "Payment required, please add funds to your workspace.");
+    }
+    const errorText = await response.text();
+    console.error(`[${requestId}] AI gateway error:`, response.status, errorText);
+    throw new HttpError(502, "AI gateway error");
   }
-});
\ No newline at end of file
+
+  return new Response(response.body, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+  });
+});
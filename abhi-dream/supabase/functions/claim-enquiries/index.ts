@@ -0,0 +1,28 @@
+import { claimEnquiriesSchema } from "../_shared/api.ts";
+import { jsonResponse, parseBody, serveFunction } from "../_shared/http.ts";
+import { requireUser } from "../_shared/auth.ts";
+
+// Moves guest enquiries into the caller's account. The email a guest typed in
+// proves nothing, so only the tracking tokens the guest was given are accepted.
+// Claimed enquiries are followed from My Enquiries and their links stop working.
+serveFunction('claim-enquiries', async (req, { supabaseAdmin }) => {
+  const { tokens } = await parseBody(req, claimEnquiriesSchema);
+
+  const user = await requireUser(req, supabaseAdmin);
+
+  const { data: claimed, error } = await supabaseAdmin
+    .from('enquiries')
+    .update({
+      user_id: user.id,
+      is_guest: false,
+      tracking_token: null
+    })
+    .in('tracking_token', tokens)
+    .eq('is_guest', true)
+    .is('user_id', null)
+    .select('id');
+
+  if (error) throw error;
+
+  return jsonResponse({ success: true, claimed: claimed?.length ?? 0 });
+});
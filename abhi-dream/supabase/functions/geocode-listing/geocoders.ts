@@ -0,0 +1,74 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Geocoder {
+  // Resolves an address to coordinates, or null when nothing matched
+  geocode(address: string): Promise<Coordinates | null>;
+}
+
+// OpenStreetMap Nominatim. The public instance requires an identifying
+// User-Agent and allows at most one request per second.
+const nominatimGeocoder: Geocoder = {
+  async geocode(address) {
+    const baseUrl = Deno.env.get('NOMINATIM_URL') ?? 'https://nominatim.openstreetmap.org';
+    const params = new URLSearchParams({ q: address, format: 'jsonv2', limit: '1' });
+
+    const countryCodes = Deno.env.get('GEOCODER_COUNTRY_CODES');
+    if (countryCodes) params.set('countrycodes', countryCodes);
+
+    const contactEmail = Deno.env.get('NOMINATIM_EMAIL');
+    if (contactEmail) params.set('email', contactEmail);
+
+    const response = await fetch(`${baseUrl}/search?${params}`, {
+      headers: { 'User-Agent': 'abhi-dream-geocoder/1.0' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Geocoding failed with status ${response.status}`);
+    }
+
+    const results = await response.json();
+    if (!Array.isArray(results) || results.length === 0) return null;
+
+    return {
+      latitude: Number(results[0].lat),
+      longitude: Number(results[0].lon),
+    };
+  },
+};
+
+// Offline geocoder for local development and tests. Hashes the address to a
+// stable point inside India so the same address always lands in the same place.
+const stubGeocoder: Geocoder = {
+  geocode(address) {
+    const normalized = address.trim().toLowerCase();
+    if (!normalized) return Promise.resolve(null);
+
+    let hash = 0;
+    for (const char of normalized) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+
+    return Promise.resolve({
+      latitude: 8 + (hash % 10000) / 10000 * 27,
+      longitude: 68 + (Math.floor(hash / 10000) % 10000) / 10000 * 29,
+    });
+  },
+};
+
+const geocoders: Record<string, Geocoder> = {
+  nominatim: nominatimGeocoder,
+  stub: stubGeocoder,
+};
+
+// Selected with the GEOCODER_PROVIDER secret, defaults to Nominatim
+export function getGeocoder(): Geocoder {
+  const provider = Deno.env.get('GEOCODER_PROVIDER') ?? 'nominatim';
+  const geocoder = geocoders[provider];
+  if (!geocoder) {
+    throw new Error(`Unknown geocoder provider: ${provider}`);
+  }
+  return geocoder;
+}
@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { getGeocoder } from "./geocoders.ts";
+import { geocodeListingSchema } from "../_shared/api.ts";
+import { HttpError, jsonResponse, parseBody, serveFunction } from "../_shared/http.ts";
+import { isServiceRoleRequest, requirePermission, requireUser } from "../_shared/auth.ts";
+
+// Public Nominatim allows one request per second
+const BACKFILL_DELAY_MS = 1100;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function geocodeAndSave(supabaseAdmin: SupabaseClient, listing: { id: string; address: string | null }) {
+  // Listings without an address (or one that cannot be found) drop off the map
+  const coordinates = listing.address?.trim()
+    ? await getGeocoder().geocode(listing.address)
+    : null;
+
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from('listings')
+    .update({
+      latitude: coordinates?.latitude ?? null,
+      longitude: coordinates?.longitude ?? null,
+      geocoded_at: new Date().toISOString(),
+    })
+    .eq('id', listing.id)
+    .select('id, latitude, longitude, geocoded_at')
+    .single();
+
+  if (updateError) throw updateError;
+  return { updated, found: !!coordinates };
+}
+
+// Geocodes one listing after it is saved, or with `backfill` the listings that
+// have never been geocoded, e.g. those created before geocoding existed. The
+// backfill is meant for a scheduled job using the service role key; staff can
+// also trigger it by hand.
+serveFunction('geocode-listing', async (req, { requestId, supabaseAdmin }) => {
+  const body = await parseBody(req, geocodeListingSchema);
+
+  if (!('backfill' in body) || !isServiceRoleRequest(req)) {
+    const user = await requireUser(req, supabaseAdmin);
+    await requirePermission(supabaseAdmin, user, 'listings.update');
+  }
+
+  if ('backfill' in body) {
+    const { data: listings, error: listingsError } = await supabaseAdmin
+      .from('listings')
+      .select('id, address')
+      .is('geocoded_at', null)
+      .order('created_at', { ascending: true })
+      .limit(body.limit ?? 20);
+
+    if (listingsError) throw listingsError;
+
+    let geocoded = 0;
+    for (const [index, listing] of (listings ?? []).entries()) {
+      if (index > 0) await sleep(BACKFILL_DELAY_MS);
+      try {
+        await geocodeAndSave(supabaseAdmin, listing);
+        geocoded++;
+      } catch (error) {
+        // Left with geocoded_at unset, so the next run tries it again
+        console.error(`[${requestId}] Backfill failed for listing ${listing.id}:`, error);
+      }
+    }
+
+    const { count: remaining, error: countError } = await supabaseAdmin
+      .from('listings')
+      .select('id', { count: 'exact', head: true })
+      .is('geocoded_at', null);
+
+    if (countError) throw countError;
+
+    console.log(`[${requestId}] Backfilled ${geocoded} listings, ${remaining} left`);
+    return jsonResponse({ success: true, geocoded, remaining: remaining ?? 0 });
+  }
+
+  const { data: listing, error: listingError } = await supabaseAdmin
+    .from('listings')
+    .select('id, address')
+    .eq('id', body.listing_id)
+    .maybeSingle();
+
+  if (listingError) throw listingError;
+  if (!listing) {
+    throw new HttpError(404, 'Listing not found');
+  }
+
+  const { updated, found } = await geocodeAndSave(supabaseAdmin, listing);
+
+  console.log(`[${requestId}] Geocoded listing ${listing.id}: ${found ? 'found' : 'no match'}`);
+
+  return jsonResponse({ success: true, data: updated });
+});
@@ -0,0 +1,100 @@
+import { appUrl } from "../_shared/email/outbox.ts";
+import { manageUsersSchema, USERS_PAGE_SIZE } from "../_shared/api.ts";
+import { HttpError, jsonResponse, parseBody, serveFunction } from "../_shared/http.ts";
+import { requirePermission, requireUser } from "../_shared/auth.ts";
+
+// Long enough to be permanent; auth has no "disabled" flag other than a ban
+const DISABLED_BAN_DURATION = '876000h';
+
+// Admin users console: list users, change roles, disable accounts and invite
+// staff. Everything here touches auth or other users' roles, so it runs with
+// the service role and needs users.manage (admins).
+serveFunction('manage-users', async (req, { requestId, supabaseAdmin }) => {
+  const body = await parseBody(req, manageUsersSchema);
+
+  const admin = await requireUser(req, supabaseAdmin);
+  await requirePermission(supabaseAdmin, admin, 'users.manage');
+
+  if (body.action === 'list') {
+    const page = body.page ?? 0;
+    const { data, error } = await supabaseAdmin.rpc('admin_list_users', {
+      _search: body.search || null,
+      _limit: USERS_PAGE_SIZE,
+      _offset: page * USERS_PAGE_SIZE,
+    });
+
+    if (error) throw error;
+
+    const rows = data ?? [];
+    const users = rows.map(({ total_count: _totalCount, ...user }) => user);
+    return jsonResponse({ success: true, users, total: rows[0]?.total_count ?? 0 });
+  }
+
+  if (body.action === 'invite') {
+    // The invite link signs them in on the password step of /upgrade-account
+    const { data, error } = await supabaseAdmin.auth.admin.inviteUserByEmail(body.email, {
+      data: { full_name: body.full_name, phone: body.phone ?? '', needs_password: true },
+      redirectTo: appUrl('/upgrade-account'),
+    });
+
+    if (error) {
+      if (error.status === 422) {
+        throw new HttpError(409, 'A user with this email already exists. Change their role instead.');
+      }
+      throw error;
+    }
+
+    // handle_new_user has made them a 'user'
+    const { error: roleError } = await supabaseAdmin.rpc('set_user_role', {
+      _user_id: data.user.id,
+      _role: body.role,
+    });
+    if (roleError) throw roleError;
+
+    console.log(`[${requestId}] ${admin.id} invited ${data.user.id} as ${body.role}`);
+    return jsonResponse({ success: true, message: `Invitation sent to ${body.email}` });
+  }
+
+  // Admins cannot lock themselves out, which also means one admin always remains
+  if (body.user_id === admin.id) {
+    throw new HttpError(409, 'You cannot change your own role or disable your own account');
+  }
+
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('profiles')
+    .select('id, email')
+    .eq('id', body.user_id)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+  if (!profile) {
+    throw new HttpError(404, 'User not found');
+  }
+
+  if (body.action === 'set_role') {
+    const { error } = await supabaseAdmin.rpc('set_user_role', {
+      _user_id: profile.id,
+      _role: body.role,
+    });
+    if (error) throw error;
+
+    console.log(`[${requestId}] ${admin.id} set role of ${profile.id} to ${body.role}`);
+    return jsonResponse({ success: true, message: `${profile.email} is now ${body.role === 'user' ? 'a customer' : `an ${body.role}`}` });
+  }
+
+  // A banned user cannot sign in or refresh their session, so they are logged
+  // out once their current access token expires
+  const { error } = await supabaseAdmin.auth.admin.updateUserById(profile.id, {
+    ban_duration: body.disabled ? DISABLED_BAN_DURATION : 'none',
+  });
+  if (error) throw error;
+
+  // Nobody would work on enquiries left assigned to a disabled account
+  if (body.disabled) {
+    const { error: releaseError } = await supabaseAdmin.rpc('release_user_enquiries', { _user_id: profile.id });
+    if (releaseError) throw releaseError;
+  }
+
+  console.log(`[${requestId}] ${admin.id} ${body.disabled ? 'disabled' : 'enabled'} ${profile.id}`);
+  return jsonResponse({ success: true, message: `${profile.email} ${body.disabled ? 'disabled' : 're-enabled'}` });
+});
@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { processEmailOutbox } from "../_shared/email/outbox.ts";
+import { jsonResponse, serveFunction, validate } from "../_shared/http.ts";
+import { isServiceRoleRequest, requirePermission, requireUser } from "../_shared/auth.ts";
+
+// Retries emails whose first delivery attempt failed. Meant to be called every
+// few minutes by a scheduled job using the service role key; admins can also
+// trigger it by hand.
+const processSchema = z.object({
+  limit: z.number().int().min(1).max(100).optional()
+});
+
+serveFunction('process-email-outbox', async (req, { supabaseAdmin }) => {
+  // Scheduled invocations usually have no body
+  const { limit = 20 } = validate(processSchema, await req.json().catch(() => ({})));
+
+  if (!isServiceRoleRequest(req)) {
+    const user = await requireUser(req, supabaseAdmin);
+    await requirePermission(supabaseAdmin, user, 'email_outbox.process');
+  }
+
+  const result = await processEmailOutbox(supabaseAdmin, limit);
+
+  return jsonResponse({ success: true, ...result });
+});
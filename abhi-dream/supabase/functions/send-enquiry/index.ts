@@ -1,133 +1,84 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
-import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { appUrl, queueEmail } from "../_shared/email/outbox.ts";
+import { emailStaffAboutEnquiry } from "../_shared/enquiries.ts";
+import { sendEnquirySchema } from "../_shared/api.ts";
+import { HttpError, jsonResponse, parseBody, serveFunction } from "../_shared/http.ts";
+import { requireUser } from "../_shared/auth.ts";
 
-const enquirySchema = z.object({
-  service_id: z.string().uuid("Invalid service ID"),
-  service_type: z.enum(["property", "renovation", "packers_movers", "painting", "cleaning", "advertising"]).optional(),
-  service_title: z.string().optional(),
-  message: z.string().trim().max(2000, "Message too long")
-});
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const requestBody = await req.json();
-    
-    // Validate input
-    const validationResult = enquirySchema.safeParse(requestBody);
-    if (!validationResult.success) {
-      return new Response(
-        JSON.stringify({ error: "Invalid input", details: validationResult.error.errors }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 400 
-        }
-      );
-    }
-    
-    const { service_id, service_title, service_type, message } = validationResult.data;
-    
-    // Get JWT token from Authorization header
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      console.error('No authorization header provided');
-      throw new Error('No authorization header');
-    }
+serveFunction('send-enquiry', async (req, { supabaseAdmin }) => {
+  const { listing_id, message } = await parseBody(req, sendEnquirySchema);
 
-    const token = authHeader.replace('Bearer ', '');
-    
-    // Create Supabase client with service role to verify the token
-    const supabaseAdmin = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
-      {
-        auth: {
-          autoRefreshToken: false,
-          persistSession: false
-        }
-      }
-    );
+  // Guests send theirs through send-guest-enquiry
+  const user = await requireUser(req, supabaseAdmin);
 
-    // Verify the user's JWT token
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
-    
-    if (userError) {
-      console.error('Auth error:', userError);
-      throw new Error(`Authentication failed: ${userError.message}`);
-    }
-    
-    if (!user) {
-      console.error('No user found in token');
-      throw new Error('Not authenticated - no user found');
-    }
+  // Use admin client to fetch profile (bypasses RLS)
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('profiles')
+    .select('*')
+    .eq('id', user.id)
+    .maybeSingle();
 
-    console.log('User authenticated:', user.id);
+  if (profileError) throw profileError;
+  if (!profile) {
+    throw new HttpError(404, 'Profile not found');
+  }
 
-    // Use admin client to fetch profile (bypasses RLS)
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('*')
-      .eq('id', user.id)
-      .single();
+  // Resolve the listing the enquiry is about
+  const { data: listing, error: listingError } = await supabaseAdmin
+    .from('listings')
+    .select('id, title, listing_type')
+    .eq('id', listing_id)
+    .maybeSingle();
 
-    if (profileError || !profile) {
-      console.error('Profile error:', profileError);
-      throw new Error('Profile not found');
-    }
+  if (listingError) throw listingError;
+  if (!listing) {
+    throw new HttpError(404, 'Listing not found');
+  }
 
-    // Use admin client to insert enquiry (bypasses RLS since we've already verified the user)
-    const { data: enquiry, error: enquiryError } = await supabaseAdmin
-      .from('enquiries')
-      .insert({
-        service_id,
-        service_type: service_type || 'property',
-        user_id: user.id,
-        user_name: profile.full_name,
-        user_email: profile.email,
-        user_phone: profile.phone,
-        message: message || ''
-      })
-      .select()
-      .single();
+  // Hand the enquiry to the least busy staff member; an unassigned enquiry is
+  // still visible to every admin and employee, so a failure here is not fatal
+  const { data: assignee, error: assigneeError } = await supabaseAdmin.rpc('pick_enquiry_assignee');
+  if (assigneeError) {
+    console.error('Error picking enquiry assignee:', assigneeError);
+  }
 
-    if (enquiryError) {
-      console.error('Error creating enquiry:', enquiryError);
-      throw enquiryError;
-    }
+  // Use admin client to insert enquiry (bypasses RLS since we've already verified the user)
+  const { data: enquiry, error: enquiryError } = await supabaseAdmin
+    .from('enquiries')
+    .insert({
+      listing_id: listing.id,
+      user_id: user.id,
+      user_name: profile.full_name,
+      user_email: profile.email,
+      user_phone: profile.phone,
+      message: message || '',
+      assigned_to: assignee ?? null
+    })
+    .select()
+    .single();
 
-    // Create notification for admins/employees (they'll see it in their dashboard)
-    console.log(`New enquiry for ${service_type}: ${service_title}`);
-    console.log(`From: ${profile.full_name} (${profile.email}, ${profile.phone})`);
+  if (enquiryError) throw enquiryError;
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: 'Enquiry submitted successfully'
-      }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200 
-      }
-    );
+  // Staff get in-app notifications from the notify_new_enquiry trigger
+  await Promise.all([
+    queueEmail(supabaseAdmin, {
+      to: profile.email,
+      userId: user.id,
+      template: 'enquiry_received',
+      data: {
+        name: profile.full_name,
+        listingTitle: listing.title,
+        link: appUrl(`/enquiries/${enquiry.id}`),
+      },
+    }),
+    emailStaffAboutEnquiry(supabaseAdmin, enquiry, {
+      customerName: profile.full_name,
+      listingTitle: listing.title,
+      message,
+    }),
+  ]);
 
-  } catch (error) {
-    console.error('Error in send-enquiry function:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500 
-      }
-    );
-  }
-});
\ No newline at end of file
+  return jsonResponse({
+    success: true,
+    message: 'Enquiry submitted successfully'
+  });
+});
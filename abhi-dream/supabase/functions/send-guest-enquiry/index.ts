@@ -0,0 +1,114 @@
+import { customerEnquiryLink, queueEmail } from "../_shared/email/outbox.ts";
+import { emailStaffAboutEnquiry } from "../_shared/enquiries.ts";
+import { verifyCaptcha } from "../_shared/captcha.ts";
+import { consumeRateLimit, getClientIp } from "../_shared/rate-limit.ts";
+import { guestEnquirySchema } from "../_shared/api.ts";
+import { HttpError, jsonResponse, parseBody, serveFunction } from "../_shared/http.ts";
+
+const IP_LIMIT = { maxHits: 10, windowSeconds: 60 * 60 };
+const EMAIL_LIMIT = { maxHits: 5, windowSeconds: 24 * 60 * 60 };
+const DUPLICATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+serveFunction('send-guest-enquiry', async (req, { requestId, supabaseAdmin }) => {
+  const { listing_id, name, phone, email, message, website, captcha_token } = await parseBody(req, guestEnquirySchema);
+
+  // Look like a success so bots have nothing to learn from
+  if (website) {
+    console.warn(`[${requestId}] Guest enquiry rejected by honeypot`);
+    return jsonResponse({ success: true, message: 'Enquiry submitted successfully' });
+  }
+
+  const clientIp = getClientIp(req);
+
+  if (!(await verifyCaptcha(captcha_token, clientIp))) {
+    throw new HttpError(400, 'Captcha verification failed');
+  }
+
+  // Requests without an address share one bucket rather than skipping the limit
+  const withinIpLimit = await consumeRateLimit(
+    supabaseAdmin,
+    `guest-enquiry:ip:${clientIp ?? 'unknown'}`,
+    IP_LIMIT.maxHits,
+    IP_LIMIT.windowSeconds
+  );
+  const withinEmailLimit = withinIpLimit &&
+    await consumeRateLimit(supabaseAdmin, `guest-enquiry:email:${email}`, EMAIL_LIMIT.maxHits, EMAIL_LIMIT.windowSeconds);
+
+  if (!withinIpLimit || !withinEmailLimit) {
+    throw new HttpError(429, 'Too many enquiries, please try again later');
+  }
+
+  const { data: listing, error: listingError } = await supabaseAdmin
+    .from('listings')
+    .select('id, title')
+    .eq('id', listing_id)
+    .maybeSingle();
+
+  if (listingError) throw listingError;
+  if (!listing) {
+    throw new HttpError(404, 'Listing not found');
+  }
+
+  // The earlier enquiry's tracking link is not returned: knowing an email
+  // address must not be enough to open someone's enquiry
+  const { data: duplicate } = await supabaseAdmin
+    .from('enquiries')
+    .select('id')
+    .eq('listing_id', listing.id)
+    .eq('user_email', email)
+    .eq('is_guest', true)
+    .gte('created_at', new Date(Date.now() - DUPLICATE_WINDOW_MS).toISOString())
+    .limit(1)
+    .maybeSingle();
+
+  if (duplicate) {
+    throw new HttpError(409, 'You already sent an enquiry about this listing. Use the tracking link you received to follow it up.');
+  }
+
+  // Same assignment as send-enquiry; an unassigned enquiry is still visible to all staff
+  const { data: assignee, error: assigneeError } = await supabaseAdmin.rpc('pick_enquiry_assignee');
+  if (assigneeError) {
+    console.error(`[${requestId}] Error picking enquiry assignee:`, assigneeError);
+  }
+
+  const { data: enquiry, error: enquiryError } = await supabaseAdmin
+    .from('enquiries')
+    .insert({
+      listing_id: listing.id,
+      user_id: null,
+      user_name: name,
+      user_email: email,
+      user_phone: phone,
+      message,
+      is_guest: true,
+      assigned_to: assignee ?? null
+    })
+    .select('id, user_id, assigned_to, tracking_token')
+    .single();
+
+  if (enquiryError) throw enquiryError;
+
+  await Promise.all([
+    queueEmail(supabaseAdmin, {
+      to: email,
+      userId: null,
+      template: 'enquiry_received',
+      data: {
+        name,
+        listingTitle: listing.title,
+        link: customerEnquiryLink(enquiry),
+      },
+    }),
+    emailStaffAboutEnquiry(supabaseAdmin, enquiry, {
+      customerName: `${name} (guest)`,
+      listingTitle: listing.title,
+      message,
+    }),
+  ]);
+
+  return jsonResponse({
+    success: true,
+    message: 'Enquiry submitted successfully',
+    tracking_token: enquiry.tracking_token
+  });
+});
@@ -0,0 +1,77 @@
+import { notifyStaffAboutMessage } from "../_shared/enquiries.ts";
+import { consumeRateLimit } from "../_shared/rate-limit.ts";
+import { trackEnquirySchema } from "../_shared/api.ts";
+import { HttpError, jsonResponse, parseBody, serveFunction } from "../_shared/http.ts";
+
+const REPLY_LIMIT = { maxHits: 20, windowSeconds: 60 * 60 };
+
+// Public view of a guest enquiry. The tracking token is the only credential:
+// anyone holding the link can see the enquiry's status and conversation and
+// reply to it, so nothing about staff or other enquiries is returned.
+serveFunction('track-enquiry', async (req, { supabaseAdmin }) => {
+  const { token, message } = await parseBody(req, trackEnquirySchema);
+
+  const { data: enquiry, error: enquiryError } = await supabaseAdmin
+    .from('enquiries')
+    .select('id, user_name, message, status, status_reason, assigned_to, created_at, updated_at, listings(title, listing_type)')
+    .eq('tracking_token', token)
+    .maybeSingle();
+
+  if (enquiryError) throw enquiryError;
+  if (!enquiry) {
+    throw new HttpError(404, 'Enquiry not found');
+  }
+
+  if (message) {
+    // The link is public, so replies through it are limited like guest enquiries
+    if (!(await consumeRateLimit(supabaseAdmin, `track-enquiry:reply:${token}`, REPLY_LIMIT.maxHits, REPLY_LIMIT.windowSeconds))) {
+      throw new HttpError(429, 'Too many replies, please try again later');
+    }
+
+    const { data: isOpen } = await supabaseAdmin.rpc('enquiry_status_is_open', { _status: enquiry.status });
+    if (!isOpen) {
+      throw new HttpError(409, 'This enquiry is closed and no longer accepts replies');
+    }
+
+    const { error: messageError } = await supabaseAdmin
+      .from('enquiry_messages')
+      .insert({
+        enquiry_id: enquiry.id,
+        sender_id: null,
+        sender_role: 'guest',
+        message
+      });
+
+    if (messageError) throw messageError;
+
+    await notifyStaffAboutMessage(supabaseAdmin, enquiry, {
+      listingTitle: enquiry.listings?.title ?? 'an enquiry',
+      senderLabel: `${enquiry.user_name} (guest)`,
+      message,
+    });
+  }
+
+  const [{ data: history, error: historyError }, { data: messages, error: messagesError }] = await Promise.all([
+    supabaseAdmin
+      .from('enquiry_status_history')
+      .select('id, from_status, to_status, reason, created_at')
+      .eq('enquiry_id', enquiry.id)
+      .order('created_at', { ascending: true }),
+    supabaseAdmin
+      .from('enquiry_messages')
+      .select('id, sender_role, message, created_at')
+      .eq('enquiry_id', enquiry.id)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (historyError) throw historyError;
+  if (messagesError) throw messagesError;
+
+  const { assigned_to: _assignedTo, ...publicEnquiry } = enquiry;
+
+  return jsonResponse({
+    enquiry: publicEnquiry,
+    history: history ?? [],
+    messages: messages ?? []
+  });
+});
@@ -1,133 +1,83 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
-import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { customerEnquiryLink, queueEmail } from "../_shared/email/outbox.ts";
+import { REASON_REQUIRED_STATUSES, statusUpdateSchema } from "../_shared/api.ts";
+import { HttpError, jsonResponse, parseBody, serveFunction } from "../_shared/http.ts";
+import { requirePermission, requireUser } from "../_shared/auth.ts";
 
-const statusUpdateSchema = z.object({
-  enquiry_id: z.string().uuid("Invalid enquiry ID"),
-  status: z.enum(["pending", "accepted", "rejected"], { errorMap: () => ({ message: "Status must be pending, accepted, or rejected" }) })
-});
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+const statusLabels: Record<string, string> = {
+  contacted: 'contacted',
+  site_visit_scheduled: 'site visit scheduled',
+  negotiation: 'in negotiation',
+  closed_won: 'closed',
+  closed_lost: 'closed',
+  rejected: 'rejected',
 };
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const requestBody = await req.json();
-    
-    // Validate input
-    const validationResult = statusUpdateSchema.safeParse(requestBody);
-    if (!validationResult.success) {
-      return new Response(
-        JSON.stringify({ error: "Invalid input", details: validationResult.error.errors }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 400 
-        }
-      );
-    }
-    
-    const { enquiry_id, status } = validationResult.data;
-    
-    // Get JWT token from Authorization header
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      throw new Error('No authorization header');
-    }
+serveFunction('update-enquiry-status', async (req, { requestId, supabaseAdmin }) => {
+  const { enquiry_id, status, reason } = await parseBody(req, statusUpdateSchema);
 
-    const token = authHeader.replace('Bearer ', '');
-    
-    // Create Supabase client with service role to verify the token
-    const supabaseAdmin = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
-      {
-        auth: {
-          autoRefreshToken: false,
-          persistSession: false
-        }
-      }
-    );
-
-    // Verify the user's JWT token
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
-    if (userError || !user) {
-      throw new Error('Not authenticated');
-    }
+  const user = await requireUser(req, supabaseAdmin);
+  await requirePermission(supabaseAdmin, user, 'enquiries.handle');
 
-    // Authorization check: verify user has admin or employee role
-    const { data: roleData } = await supabaseAdmin
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', user.id)
-      .single();
+  // Use admin client to update enquiry (bypasses RLS since we've already verified the user).
+  // The service role has no auth.uid(), so the history trigger reads the actor from status_changed_by.
+  const { data: enquiry, error: updateError } = await supabaseAdmin
+    .from('enquiries')
+    .update({ status, status_reason: reason ?? null, status_changed_by: user.id })
+    .eq('id', enquiry_id)
+    .select('*, listings(title)')
+    .maybeSingle();
 
-    if (!roleData || (roleData.role !== 'admin' && roleData.role !== 'employee')) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: Admin or employee role required' }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 403 
-        }
-      );
-    }
-
-    // Use admin client to update enquiry (bypasses RLS since we've already verified the user)
-    const { data: enquiry, error: updateError } = await supabaseAdmin
-      .from('enquiries')
-      .update({ status })
-      .eq('id', enquiry_id)
-      .select('*')
-      .single();
-
-    if (updateError) {
-      console.error('Error updating enquiry:', updateError);
-      throw updateError;
+  if (updateError) {
+    // Raised by the trigger for moves the pipeline does not allow
+    if (updateError.code === '23514') {
+      throw new HttpError(409, updateError.message);
     }
+    throw updateError;
+  }
+  if (!enquiry) {
+    throw new HttpError(404, 'Enquiry not found');
+  }
 
-    // Create notification for user
-    const notificationMessage = status === 'accepted' 
-      ? 'Your enquiry has been accepted! We will contact you soon.'
-      : 'Your enquiry status has been updated.';
+  // Create notification for user (guest enquiries have no account to notify)
+  if (enquiry.user_id) {
+    const isNegative = REASON_REQUIRED_STATUSES.includes(status);
+    const notificationMessage = status === 'contacted'
+      ? 'Our team has picked up your enquiry and will contact you soon.'
+      : status === 'closed_won'
+        ? 'Congratulations! Your enquiry has been successfully closed.'
+        : isNegative
+          ? `Your enquiry has been ${statusLabels[status]}. Reason: ${reason}`
+          : `Your enquiry is now ${statusLabels[status]}.`;
 
     await supabaseAdmin
       .from('notifications')
       .insert({
         user_id: enquiry.user_id,
-        title: `Enquiry ${status}`,
+        title: `Enquiry ${statusLabels[status]}`,
         message: notificationMessage,
-        type: status === 'accepted' ? 'enquiry_accepted' : 'enquiry_rejected',
+        type: isNegative ? 'enquiry_rejected' : 'enquiry_status_changed',
         related_id: enquiry_id
       });
+  }
 
-    console.log(`Enquiry ${enquiry_id} status updated to ${status}`);
+  await queueEmail(supabaseAdmin, {
+    to: enquiry.user_email,
+    userId: enquiry.user_id,
+    template: 'enquiry_status_changed',
+    data: {
+      name: enquiry.user_name,
+      listingTitle: enquiry.listings?.title ?? 'your listing',
+      status: statusLabels[status],
+      reason,
+      link: customerEnquiryLink(enquiry),
+    },
+  });
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: 'Enquiry status updated successfully',
-        enquiry
-      }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200 
-      }
-    );
+  console.log(`[${requestId}] Enquiry ${enquiry_id} status updated to ${status}`);
 
-  } catch (error) {
-    console.error('Error in update-enquiry-status function:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500 
-      }
-    );
-  }
+  return jsonResponse({
+    success: true,
+    message: 'Enquiry status updated successfully',
+    enquiry
+  });
 });
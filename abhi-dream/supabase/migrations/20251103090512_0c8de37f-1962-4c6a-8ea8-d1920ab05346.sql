@@ -0,0 +1,5 @@
+-- Stream notification changes to the in-app notification center
+-- REPLICA IDENTITY FULL lets realtime evaluate the user_id filter on UPDATE events
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,2 @@
+-- Stream new enquiry messages to open conversation threads
+ALTER PUBLICATION supabase_realtime ADD TABLE public.enquiry_messages;
@@ -0,0 +1,24 @@
+-- Allow customers to withdraw their own enquiries while they are still pending
+-- Users have no UPDATE policy on enquiries, so this runs as a security definer
+-- and only ever touches the status of the caller's own pending rows
+CREATE OR REPLACE FUNCTION public.withdraw_enquiry(_enquiry_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.enquiries
+  SET status = 'withdrawn'
+  WHERE id = _enquiry_id
+    AND user_id = auth.uid()
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only your own pending enquiries can be withdrawn';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.withdraw_enquiry(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.withdraw_enquiry(UUID) TO authenticated;
@@ -0,0 +1,125 @@
+-- Unify properties and services into a single listings table
+-- Enquiries previously stored either a property id or a service id in service_id
+-- with no foreign key; every listing now lives in one table so enquiries can
+-- reference it with real referential integrity.
+CREATE TABLE public.listings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  listing_type TEXT NOT NULL CHECK (listing_type IN ('property', 'renovation', 'packers_movers', 'painting', 'cleaning', 'advertising')),
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  price NUMERIC(12,2) NOT NULL CHECK (price >= 0),
+  status TEXT NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'unavailable', 'pending', 'sold')),
+  address TEXT,
+  images TEXT[] NOT NULL DEFAULT '{}',
+  -- Property-specific attributes
+  bedrooms INTEGER CHECK (bedrooms >= 0),
+  bathrooms INTEGER CHECK (bathrooms >= 0),
+  area_sqft INTEGER CHECK (area_sqft >= 0),
+  property_type TEXT,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT listings_property_attributes_check CHECK (
+    listing_type = 'property'
+    OR (bedrooms IS NULL AND bathrooms IS NULL AND area_sqft IS NULL AND property_type IS NULL)
+  )
+);
+
+CREATE INDEX listings_listing_type_created_at_idx ON public.listings (listing_type, created_at DESC);
+
+-- Copy services first
+INSERT INTO public.listings (id, listing_type, title, description, price, status, address, images, created_by, created_at, updated_at)
+SELECT
+  id,
+  service_type,
+  title,
+  description,
+  price,
+  COALESCE(status, 'available'),
+  address,
+  COALESCE(images, '{}'),
+  created_by,
+  COALESCE(created_at, now()),
+  COALESCE(updated_at, now())
+FROM public.services;
+
+-- Then properties. Some were already copied into services with the same id by an
+-- earlier migration; the properties row is the source of truth for those.
+INSERT INTO public.listings (id, listing_type, title, description, price, status, address, images, bedrooms, bathrooms, area_sqft, property_type, created_by, created_at, updated_at)
+SELECT
+  id,
+  'property',
+  title,
+  description,
+  price,
+  COALESCE(status, 'available'),
+  address,
+  COALESCE(images, '{}'),
+  bedrooms,
+  bathrooms,
+  area_sqft,
+  property_type,
+  created_by,
+  COALESCE(created_at, now()),
+  COALESCE(updated_at, now())
+FROM public.properties
+ON CONFLICT (id) DO UPDATE SET
+  listing_type = 'property',
+  title = EXCLUDED.title,
+  description = EXCLUDED.description,
+  price = EXCLUDED.price,
+  status = EXCLUDED.status,
+  address = EXCLUDED.address,
+  images = EXCLUDED.images,
+  bedrooms = EXCLUDED.bedrooms,
+  bathrooms = EXCLUDED.bathrooms,
+  area_sqft = EXCLUDED.area_sqft,
+  property_type = EXCLUDED.property_type,
+  updated_at = EXCLUDED.updated_at;
+
+-- Enable RLS on listings
+ALTER TABLE public.listings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view listings"
+  ON public.listings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admin and employees can create listings"
+  ON public.listings FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'employee'::app_role));
+
+CREATE POLICY "Admin and employees can update listings"
+  ON public.listings FOR UPDATE
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'employee'::app_role));
+
+CREATE POLICY "Admin and employees can delete listings"
+  ON public.listings FOR DELETE
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'employee'::app_role));
+
+CREATE TRIGGER update_listings_updated_at
+  BEFORE UPDATE ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Point enquiries at listings
+ALTER TABLE public.enquiries RENAME COLUMN service_id TO listing_id;
+
+-- Detach enquiries whose listing was deleted while there was no foreign key
+UPDATE public.enquiries
+SET listing_id = NULL
+WHERE listing_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.listings WHERE listings.id = enquiries.listing_id);
+
+-- Keep the enquiry history when a listing is removed
+ALTER TABLE public.enquiries
+ADD CONSTRAINT enquiries_listing_id_fkey
+FOREIGN KEY (listing_id) REFERENCES public.listings(id) ON DELETE SET NULL;
+
+CREATE INDEX enquiries_listing_id_idx ON public.enquiries (listing_id);
+
+-- The listing type is now resolved through the listing itself
+ALTER TABLE public.enquiries DROP COLUMN service_type;
+
+-- Retire the old tables
+DROP TABLE public.properties;
+DROP TABLE public.services;
@@ -0,0 +1,63 @@
+-- Server-side listing search
+-- Full-text index over title, description and address. The expression must match
+-- the one used in search_listings exactly for the planner to use the index.
+CREATE INDEX listings_search_idx ON public.listings
+USING GIN (to_tsvector('english', title || ' ' || description || ' ' || coalesce(address, '')));
+
+CREATE INDEX listings_price_idx ON public.listings (price);
+
+-- Search listings with optional filters. NULL arguments are ignored.
+-- _sort is one of: newest, relevance, price_asc, price_desc, area_desc
+CREATE OR REPLACE FUNCTION public.search_listings(
+  _query TEXT DEFAULT NULL,
+  _listing_type TEXT DEFAULT 'property',
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _min_bedrooms INTEGER DEFAULT NULL,
+  _min_bathrooms INTEGER DEFAULT NULL,
+  _min_area INTEGER DEFAULT NULL,
+  _max_area INTEGER DEFAULT NULL,
+  _property_type TEXT DEFAULT NULL,
+  _status TEXT DEFAULT NULL,
+  _sort TEXT DEFAULT 'newest',
+  _limit INTEGER DEFAULT 50,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS SETOF public.listings
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT CASE
+      WHEN NULLIF(trim(_query), '') IS NULL THEN NULL
+      ELSE websearch_to_tsquery('english', _query)
+    END AS query
+  )
+  SELECT l.*
+  FROM public.listings l, search s
+  WHERE (_listing_type IS NULL OR l.listing_type = _listing_type)
+    AND (s.query IS NULL
+      OR to_tsvector('english', l.title || ' ' || l.description || ' ' || coalesce(l.address, '')) @@ s.query)
+    AND (_min_price IS NULL OR l.price >= _min_price)
+    AND (_max_price IS NULL OR l.price <= _max_price)
+    AND (_min_bedrooms IS NULL OR l.bedrooms >= _min_bedrooms)
+    AND (_min_bathrooms IS NULL OR l.bathrooms >= _min_bathrooms)
+    AND (_min_area IS NULL OR l.area_sqft >= _min_area)
+    AND (_max_area IS NULL OR l.area_sqft <= _max_area)
+    AND (_property_type IS NULL OR l.property_type = _property_type)
+    AND (_status IS NULL OR l.status = _status)
+  ORDER BY
+    CASE WHEN _sort = 'relevance' AND s.query IS NOT NULL THEN
+      ts_rank(to_tsvector('english', l.title || ' ' || l.description || ' ' || coalesce(l.address, '')), s.query)
+    END DESC NULLS LAST,
+    CASE WHEN _sort = 'price_asc' THEN l.price END ASC,
+    CASE WHEN _sort = 'price_desc' THEN l.price END DESC,
+    CASE WHEN _sort = 'area_desc' THEN l.area_sqft END DESC NULLS LAST,
+    l.created_at DESC,
+    l.id
+  LIMIT LEAST(GREATEST(_limit, 1), 100)
+  OFFSET GREATEST(_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_listings(TEXT, TEXT, NUMERIC, NUMERIC, INTEGER, INTEGER, INTEGER, INTEGER, TEXT, TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
@@ -0,0 +1,70 @@
+-- Cursor-based pagination for search_listings
+-- Every sort is expressed as a single descending sort key so that a page can be
+-- continued from the (sort_key, id) of its last row. The key is returned as text
+-- to keep numeric precision when it round-trips through the client.
+DROP FUNCTION public.search_listings(TEXT, TEXT, NUMERIC, NUMERIC, INTEGER, INTEGER, INTEGER, INTEGER, TEXT, TEXT, TEXT, INTEGER, INTEGER);
+
+-- Search listings with optional filters. NULL arguments are ignored.
+-- _sort is one of: newest, relevance, price_asc, price_desc, area_desc
+-- Pass the sort_key and id of the last row received to fetch the next page.
+CREATE OR REPLACE FUNCTION public.search_listings(
+  _query TEXT DEFAULT NULL,
+  _listing_types TEXT[] DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _min_bedrooms INTEGER DEFAULT NULL,
+  _min_bathrooms INTEGER DEFAULT NULL,
+  _min_area INTEGER DEFAULT NULL,
+  _max_area INTEGER DEFAULT NULL,
+  _property_type TEXT DEFAULT NULL,
+  _status TEXT DEFAULT NULL,
+  _sort TEXT DEFAULT 'newest',
+  _cursor_key TEXT DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (listing public.listings, sort_key TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT CASE
+      WHEN NULLIF(trim(_query), '') IS NULL THEN NULL
+      ELSE websearch_to_tsquery('english', _query)
+    END AS query
+  ),
+  matches AS (
+    SELECT
+      l AS listing,
+      l.id,
+      CASE
+        WHEN _sort = 'relevance' AND s.query IS NOT NULL THEN
+          ts_rank(to_tsvector('english', l.title || ' ' || l.description || ' ' || coalesce(l.address, '')), s.query)::NUMERIC
+        WHEN _sort = 'price_asc' THEN -l.price
+        WHEN _sort = 'price_desc' THEN l.price
+        WHEN _sort = 'area_desc' THEN coalesce(l.area_sqft, -1)
+        ELSE extract(epoch FROM l.created_at)
+      END AS sort_key
+    FROM public.listings l, search s
+    WHERE (_listing_types IS NULL OR l.listing_type = ANY(_listing_types))
+      AND (s.query IS NULL
+        OR to_tsvector('english', l.title || ' ' || l.description || ' ' || coalesce(l.address, '')) @@ s.query)
+      AND (_min_price IS NULL OR l.price >= _min_price)
+      AND (_max_price IS NULL OR l.price <= _max_price)
+      AND (_min_bedrooms IS NULL OR l.bedrooms >= _min_bedrooms)
+      AND (_min_bathrooms IS NULL OR l.bathrooms >= _min_bathrooms)
+      AND (_min_area IS NULL OR l.area_sqft >= _min_area)
+      AND (_max_area IS NULL OR l.area_sqft <= _max_area)
+      AND (_property_type IS NULL OR l.property_type = _property_type)
+      AND (_status IS NULL OR l.status = _status)
+  )
+  SELECT m.listing, m.sort_key::TEXT
+  FROM matches m
+  WHERE _cursor_key IS NULL
+    OR (m.sort_key, m.id) < (_cursor_key::NUMERIC, _cursor_id)
+  ORDER BY m.sort_key DESC, m.id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_listings(TEXT, TEXT[], NUMERIC, NUMERIC, INTEGER, INTEGER, INTEGER, INTEGER, TEXT, TEXT, TEXT, TEXT, UUID, INTEGER) TO anon, authenticated;
@@ -0,0 +1,118 @@
+-- Geocoded coordinates for listings
+-- Populated by the geocode-listing edge function whenever an address is saved.
+ALTER TABLE public.listings
+ADD COLUMN latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+ADD COLUMN longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+ADD COLUMN geocoded_at TIMESTAMP WITH TIME ZONE,
+ADD CONSTRAINT listings_coordinates_check CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+CREATE INDEX listings_coordinates_idx ON public.listings (latitude, longitude)
+WHERE latitude IS NOT NULL;
+
+-- Great-circle distance in kilometres
+CREATE OR REPLACE FUNCTION public.distance_km(
+  _lat1 DOUBLE PRECISION,
+  _lng1 DOUBLE PRECISION,
+  _lat2 DOUBLE PRECISION,
+  _lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 6371 * 2 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2)
+    + cos(radians(_lat1)) * cos(radians(_lat2)) * power(sin(radians(_lng2 - _lng1) / 2), 2)
+  ));
+$$;
+
+-- Add radius and map area filters to search_listings
+DROP FUNCTION public.search_listings(TEXT, TEXT[], NUMERIC, NUMERIC, INTEGER, INTEGER, INTEGER, INTEGER, TEXT, TEXT, TEXT, TEXT, UUID, INTEGER);
+
+-- Search listings with optional filters. NULL arguments are ignored.
+-- _sort is one of: newest, relevance, price_asc, price_desc, area_desc
+-- _near_lat/_near_lng/_radius_km limit results to a circle around a point and
+-- _south/_west/_north/_east to a map area; both only match geocoded listings.
+-- Pass the sort_key and id of the last row received to fetch the next page.
+CREATE OR REPLACE FUNCTION public.search_listings(
+  _query TEXT DEFAULT NULL,
+  _listing_types TEXT[] DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _min_bedrooms INTEGER DEFAULT NULL,
+  _min_bathrooms INTEGER DEFAULT NULL,
+  _min_area INTEGER DEFAULT NULL,
+  _max_area INTEGER DEFAULT NULL,
+  _property_type TEXT DEFAULT NULL,
+  _status TEXT DEFAULT NULL,
+  _near_lat DOUBLE PRECISION DEFAULT NULL,
+  _near_lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _south DOUBLE PRECISION DEFAULT NULL,
+  _west DOUBLE PRECISION DEFAULT NULL,
+  _north DOUBLE PRECISION DEFAULT NULL,
+  _east DOUBLE PRECISION DEFAULT NULL,
+  _sort TEXT DEFAULT 'newest',
+  _cursor_key TEXT DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (listing public.listings, sort_key TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT CASE
+      WHEN NULLIF(trim(_query), '') IS NULL THEN NULL
+      ELSE websearch_to_tsquery('english', _query)
+    END AS query
+  ),
+  matches AS (
+    SELECT
+      l AS listing,
+      l.id,
+      CASE
+        WHEN _sort = 'relevance' AND s.query IS NOT NULL THEN
+          ts_rank(to_tsvector('english', l.title || ' ' || l.description || ' ' || coalesce(l.address, '')), s.query)::NUMERIC
+        WHEN _sort = 'price_asc' THEN -l.price
+        WHEN _sort = 'price_desc' THEN l.price
+        WHEN _sort = 'area_desc' THEN coalesce(l.area_sqft, -1)
+        ELSE extract(epoch FROM l.created_at)
+      END AS sort_key
+    FROM public.listings l, search s
+    WHERE (_listing_types IS NULL OR l.listing_type = ANY(_listing_types))
+      AND (s.query IS NULL
+        OR to_tsvector('english', l.title || ' ' || l.description || ' ' || coalesce(l.address, '')) @@ s.query)
+      AND (_min_price IS NULL OR l.price >= _min_price)
+      AND (_max_price IS NULL OR l.price <= _max_price)
+      AND (_min_bedrooms IS NULL OR l.bedrooms >= _min_bedrooms)
+      AND (_min_bathrooms IS NULL OR l.bathrooms >= _min_bathrooms)
+      AND (_min_area IS NULL OR l.area_sqft >= _min_area)
+      AND (_max_area IS NULL OR l.area_sqft <= _max_area)
+      AND (_property_type IS NULL OR l.property_type = _property_type)
+      AND (_status IS NULL OR l.status = _status)
+      AND (_near_lat IS NULL OR _near_lng IS NULL OR _radius_km IS NULL OR (
+        -- Cheap bounding box first so the coordinates index can be used
+        l.latitude BETWEEN _near_lat - _radius_km / 111.045 AND _near_lat + _radius_km / 111.045
+        AND public.distance_km(_near_lat, _near_lng, l.latitude, l.longitude) <= _radius_km
+      ))
+      AND (_south IS NULL OR _west IS NULL OR _north IS NULL OR _east IS NULL OR (
+        l.latitude BETWEEN _south AND _north
+        AND l.longitude BETWEEN _west AND _east
+      ))
+  )
+  SELECT m.listing, m.sort_key::TEXT
+  FROM matches m
+  WHERE _cursor_key IS NULL
+    OR (m.sort_key, m.id) < (_cursor_key::NUMERIC, _cursor_id)
+  ORDER BY m.sort_key DESC, m.id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_listings(
+  TEXT, TEXT[], NUMERIC, NUMERIC, INTEGER, INTEGER, INTEGER, INTEGER, TEXT, TEXT,
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  TEXT, TEXT, UUID, INTEGER
+) TO anon, authenticated;
@@ -0,0 +1,78 @@
+-- Customer favourites
+CREATE TABLE public.favorites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  listing_id UUID REFERENCES public.listings(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, listing_id)
+);
+
+CREATE INDEX favorites_listing_id_idx ON public.favorites (listing_id);
+
+ALTER TABLE public.favorites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own favorites"
+ON public.favorites FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Guest (anonymous) sessions cannot keep a shortlist
+CREATE POLICY "Registered users can add favorites"
+ON public.favorites FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND NOT COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false)
+);
+
+CREATE POLICY "Users can remove their own favorites"
+ON public.favorites FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Allow the new notification type
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+CHECK (type IN ('enquiry_accepted', 'enquiry_rejected', 'new_message', 'new_enquiry', 'favorite_updated'));
+
+-- Tell everyone who saved a listing when its price or status changes
+CREATE OR REPLACE FUNCTION public.notify_favorite_listing_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _changes TEXT[] := '{}';
+BEGIN
+  IF NEW.price IS DISTINCT FROM OLD.price THEN
+    _changes := _changes || format(
+      'price changed from ₹%s to ₹%s',
+      to_char(OLD.price, 'FM999,999,999,990'),
+      to_char(NEW.price, 'FM999,999,999,990')
+    );
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    _changes := _changes || format('status changed from %s to %s', OLD.status, NEW.status);
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_id)
+  SELECT
+    f.user_id,
+    'Saved listing updated',
+    format('"%s": %s', NEW.title, array_to_string(_changes, ' and ')),
+    'favorite_updated',
+    NEW.id
+  FROM public.favorites f
+  WHERE f.listing_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_favorite_listing_change
+  AFTER UPDATE OF price, status ON public.listings
+  FOR EACH ROW
+  WHEN (OLD.price IS DISTINCT FROM NEW.price OR OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.notify_favorite_listing_change();
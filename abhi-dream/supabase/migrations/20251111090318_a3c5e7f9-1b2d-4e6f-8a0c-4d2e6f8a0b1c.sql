@@ -0,0 +1,123 @@
+-- Saved searches with alerts for newly listed matches
+-- Filter columns mirror the search_listings arguments; NULL means "any".
+CREATE TABLE public.saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 100),
+  query TEXT CHECK (char_length(query) <= 200),
+  listing_types TEXT[],
+  min_price NUMERIC(12,2),
+  max_price NUMERIC(12,2),
+  min_bedrooms INTEGER,
+  min_bathrooms INTEGER,
+  min_area INTEGER,
+  max_area INTEGER,
+  property_type TEXT,
+  status TEXT,
+  near_lat DOUBLE PRECISION,
+  near_lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION,
+  south DOUBLE PRECISION,
+  west DOUBLE PRECISION,
+  north DOUBLE PRECISION,
+  east DOUBLE PRECISION,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX saved_searches_user_id_idx ON public.saved_searches (user_id);
+
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved searches"
+ON public.saved_searches FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Registered users can save searches"
+ON public.saved_searches FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND NOT COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false)
+);
+
+CREATE POLICY "Users can delete their own saved searches"
+ON public.saved_searches FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Allow the new notification type
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+CHECK (type IN ('enquiry_accepted', 'enquiry_rejected', 'new_message', 'new_enquiry', 'favorite_updated', 'saved_search_match'));
+
+-- Same rules as search_listings, applied to a single listing
+CREATE OR REPLACE FUNCTION public.listing_matches_search(_listing public.listings, _search public.saved_searches)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (_search.listing_types IS NULL OR _listing.listing_type = ANY(_search.listing_types))
+    AND (NULLIF(trim(_search.query), '') IS NULL
+      OR to_tsvector('english', _listing.title || ' ' || _listing.description || ' ' || coalesce(_listing.address, ''))
+        @@ websearch_to_tsquery('english', _search.query))
+    AND (_search.min_price IS NULL OR _listing.price >= _search.min_price)
+    AND (_search.max_price IS NULL OR _listing.price <= _search.max_price)
+    AND (_search.min_bedrooms IS NULL OR _listing.bedrooms >= _search.min_bedrooms)
+    AND (_search.min_bathrooms IS NULL OR _listing.bathrooms >= _search.min_bathrooms)
+    AND (_search.min_area IS NULL OR _listing.area_sqft >= _search.min_area)
+    AND (_search.max_area IS NULL OR _listing.area_sqft <= _search.max_area)
+    AND (_search.property_type IS NULL OR _listing.property_type = _search.property_type)
+    AND (_search.status IS NULL OR _listing.status = _search.status)
+    AND (_search.near_lat IS NULL OR _search.near_lng IS NULL OR _search.radius_km IS NULL
+      OR public.distance_km(_search.near_lat, _search.near_lng, _listing.latitude, _listing.longitude) <= _search.radius_km)
+    AND (_search.south IS NULL OR _search.west IS NULL OR _search.north IS NULL OR _search.east IS NULL OR (
+      _listing.latitude BETWEEN _search.south AND _search.north
+      AND _listing.longitude BETWEEN _search.west AND _search.east
+    )),
+    false
+  );
+$$;
+
+-- Notify owners of matching saved searches about a new listing. Searches limited
+-- to a map area can only be checked once the listing has coordinates, so they are
+-- matched when the listing is first geocoded instead of when it is inserted.
+CREATE OR REPLACE FUNCTION public.notify_saved_search_matches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, title, message, type, related_id)
+  SELECT
+    s.user_id,
+    format('New match for "%s"', s.name),
+    format('%s was just listed', NEW.title),
+    'saved_search_match',
+    NEW.id
+  FROM public.saved_searches s
+  WHERE (
+      CASE WHEN TG_OP = 'INSERT'
+        THEN (s.near_lat IS NULL AND s.south IS NULL) OR NEW.latitude IS NOT NULL
+        ELSE s.near_lat IS NOT NULL OR s.south IS NOT NULL
+      END
+    )
+    AND public.listing_matches_search(NEW, s);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_saved_search_matches
+  AFTER INSERT ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_saved_search_matches();
+
+CREATE TRIGGER notify_saved_search_matches_on_geocode
+  AFTER UPDATE OF latitude, longitude ON public.listings
+  FOR EACH ROW
+  WHEN (OLD.geocoded_at IS NULL AND OLD.latitude IS NULL AND NEW.latitude IS NOT NULL)
+  EXECUTE FUNCTION public.notify_saved_search_matches();
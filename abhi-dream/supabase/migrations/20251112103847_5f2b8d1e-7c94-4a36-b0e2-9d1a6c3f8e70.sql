@@ -0,0 +1,168 @@
+-- Enquiry sales pipeline: pending -> contacted -> site visit / negotiation -> closed won or lost.
+-- "accepted" is replaced by "contacted"; rejected, withdrawn and closed enquiries are final.
+UPDATE public.enquiries SET status = 'contacted' WHERE status = 'accepted';
+UPDATE public.enquiries SET status = 'pending' WHERE status IS NULL;
+
+ALTER TABLE public.enquiries
+  ADD CONSTRAINT enquiries_status_check CHECK (status IN (
+    'pending', 'contacted', 'site_visit_scheduled', 'negotiation',
+    'closed_won', 'closed_lost', 'rejected', 'withdrawn'
+  )),
+  -- Set together with status; copied into the history by the triggers below
+  ADD COLUMN status_reason TEXT CHECK (char_length(status_reason) <= 500),
+  ADD COLUMN status_changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE TABLE public.enquiry_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  enquiry_id UUID REFERENCES public.enquiries(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  reason TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX enquiry_status_history_enquiry_id_idx ON public.enquiry_status_history (enquiry_id, created_at);
+
+ALTER TABLE public.enquiry_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the triggers below
+CREATE POLICY "Users can view the history of their own enquiries"
+ON public.enquiry_status_history FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.enquiries
+    WHERE enquiries.id = enquiry_status_history.enquiry_id
+      AND enquiries.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admin and employees can view all enquiry history"
+ON public.enquiry_status_history FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'employee'::app_role));
+
+-- Backfill what we know about existing enquiries
+INSERT INTO public.enquiry_status_history (enquiry_id, from_status, to_status, created_at)
+SELECT id, NULL, 'pending', COALESCE(created_at, NOW())
+FROM public.enquiries;
+
+INSERT INTO public.enquiry_status_history (enquiry_id, from_status, to_status, created_at)
+SELECT id, 'pending', status, COALESCE(updated_at, created_at, NOW())
+FROM public.enquiries
+WHERE status <> 'pending';
+
+-- The allowed moves between statuses. Keep in sync with src/lib/enquiry-status.ts
+CREATE OR REPLACE FUNCTION public.enquiry_status_transition_allowed(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(CASE _from
+    WHEN 'pending' THEN _to IN ('contacted', 'rejected', 'withdrawn')
+    WHEN 'contacted' THEN _to IN ('site_visit_scheduled', 'negotiation', 'closed_won', 'closed_lost')
+    WHEN 'site_visit_scheduled' THEN _to IN ('negotiation', 'closed_won', 'closed_lost')
+    WHEN 'negotiation' THEN _to IN ('site_visit_scheduled', 'closed_won', 'closed_lost')
+    ELSE false
+  END, false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_enquiry_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Every enquiry starts at the beginning of the pipeline
+    NEW.status := 'pending';
+    NEW.status_reason := NULL;
+    NEW.status_changed_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.enquiry_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'An enquiry cannot move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.status_reason := NULLIF(trim(NEW.status_reason), '');
+  IF NEW.status IN ('rejected', 'closed_lost') AND NEW.status_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to mark an enquiry as %', NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Edge functions update with the service role, so they pass the staff member explicitly
+  NEW.status_changed_by := COALESCE(auth.uid(), NEW.status_changed_by);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_enquiry_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.enquiry_status_history (enquiry_id, from_status, to_status, reason, changed_by)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    NEW.status_reason,
+    CASE WHEN TG_OP = 'UPDATE' THEN NEW.status_changed_by ELSE NEW.user_id END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_enquiry_status_on_insert
+  BEFORE INSERT ON public.enquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_enquiry_status();
+
+CREATE TRIGGER enforce_enquiry_status_on_update
+  BEFORE UPDATE OF status ON public.enquiries
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.enforce_enquiry_status();
+
+CREATE TRIGGER record_enquiry_status_on_insert
+  AFTER INSERT ON public.enquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_enquiry_status_change();
+
+CREATE TRIGGER record_enquiry_status_on_update
+  AFTER UPDATE OF status ON public.enquiries
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.record_enquiry_status_change();
+
+-- Withdrawals now go through the same pipeline and are recorded in the history
+CREATE OR REPLACE FUNCTION public.withdraw_enquiry(_enquiry_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.enquiries
+  SET status = 'withdrawn',
+      status_reason = NULL
+  WHERE id = _enquiry_id
+    AND user_id = auth.uid()
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only your own pending enquiries can be withdrawn';
+  END IF;
+END;
+$$;
+
+-- Progress updates other than rejection
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+CHECK (type IN ('enquiry_accepted', 'enquiry_rejected', 'enquiry_status_changed', 'new_message', 'new_enquiry', 'favorite_updated', 'saved_search_match'));
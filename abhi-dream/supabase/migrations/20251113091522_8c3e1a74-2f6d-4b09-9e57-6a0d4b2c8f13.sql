@@ -0,0 +1,156 @@
+-- Enquiry ownership: each enquiry can be assigned to one admin or employee
+ALTER TABLE public.enquiries
+  ADD COLUMN assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN assigned_at TIMESTAMPTZ;
+
+CREATE INDEX enquiries_assigned_to_idx ON public.enquiries (assigned_to);
+
+-- Enquiries still being worked on, as opposed to closed, rejected or withdrawn ones
+CREATE OR REPLACE FUNCTION public.enquiry_status_is_open(_status TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _status IN ('pending', 'contacted', 'site_visit_scheduled', 'negotiation');
+$$;
+
+-- Admins and employees with their current workload, for the assignment picker
+CREATE OR REPLACE FUNCTION public.list_staff()
+RETURNS TABLE(user_id UUID, full_name TEXT, email TEXT, role app_role, open_enquiries INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'employee'::app_role)) THEN
+    RAISE EXCEPTION 'Only admins and employees can list staff';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.user_id,
+    p.full_name,
+    p.email,
+    r.role,
+    (
+      SELECT count(*)::INTEGER FROM public.enquiries e
+      WHERE e.assigned_to = r.user_id AND public.enquiry_status_is_open(e.status)
+    )
+  FROM public.user_roles r
+  JOIN public.profiles p ON p.id = r.user_id
+  WHERE r.role IN ('admin', 'employee')
+  ORDER BY p.full_name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_staff() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_staff() TO authenticated;
+
+-- Load-based auto-assignment: the employee with the fewest open enquiries, falling
+-- back to admins when there are no employees. Ties go to whoever was assigned an
+-- enquiry least recently, so equal workloads are shared round-robin.
+CREATE OR REPLACE FUNCTION public.pick_enquiry_assignee()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.user_id
+  FROM public.user_roles r
+  WHERE r.role IN ('admin', 'employee')
+  GROUP BY r.user_id
+  ORDER BY
+    bool_or(r.role = 'employee') DESC,
+    (
+      SELECT count(*) FROM public.enquiries e
+      WHERE e.assigned_to = r.user_id AND public.enquiry_status_is_open(e.status)
+    ),
+    (SELECT max(e.assigned_at) FROM public.enquiries e WHERE e.assigned_to = r.user_id) NULLS FIRST,
+    r.user_id
+  LIMIT 1;
+$$;
+
+-- Only called by the send-enquiry edge function with the service role
+REVOKE EXECUTE ON FUNCTION public.pick_enquiry_assignee() FROM PUBLIC, anon, authenticated;
+
+-- Assignees must be staff, and only admins (or the service role) may change them
+CREATE OR REPLACE FUNCTION public.enforce_enquiry_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    IF TG_OP = 'UPDATE' OR NEW.assigned_to IS NOT NULL THEN
+      RAISE EXCEPTION 'Only admins can assign enquiries'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL
+    AND NOT (has_role(NEW.assigned_to, 'admin'::app_role) OR has_role(NEW.assigned_to, 'employee'::app_role)) THEN
+    RAISE EXCEPTION 'Enquiries can only be assigned to admins or employees'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.assigned_at := CASE WHEN NEW.assigned_to IS NULL THEN NULL ELSE NOW() END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_enquiry_assignment
+  BEFORE INSERT OR UPDATE OF assigned_to ON public.enquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_enquiry_assignment();
+
+-- Let the assignee know an enquiry has landed on them
+CREATE OR REPLACE FUNCTION public.notify_enquiry_assignee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _listing_title TEXT;
+BEGIN
+  -- No need to tell admins about enquiries they assigned to themselves
+  IF NEW.assigned_to = auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO _listing_title FROM public.listings WHERE id = NEW.listing_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_id)
+  VALUES (
+    NEW.assigned_to,
+    'Enquiry assigned to you',
+    format('%s enquired about %s', NEW.user_name, COALESCE(_listing_title, 'a listing')),
+    'enquiry_assigned',
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_enquiry_assignee_on_insert
+  AFTER INSERT ON public.enquiries
+  FOR EACH ROW
+  WHEN (NEW.assigned_to IS NOT NULL)
+  EXECUTE FUNCTION public.notify_enquiry_assignee();
+
+CREATE TRIGGER notify_enquiry_assignee_on_update
+  AFTER UPDATE OF assigned_to ON public.enquiries
+  FOR EACH ROW
+  WHEN (NEW.assigned_to IS NOT NULL AND NEW.assigned_to IS DISTINCT FROM OLD.assigned_to)
+  EXECUTE FUNCTION public.notify_enquiry_assignee();
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+CHECK (type IN ('enquiry_accepted', 'enquiry_rejected', 'enquiry_status_changed', 'enquiry_assigned', 'new_message', 'new_enquiry', 'favorite_updated', 'saved_search_match'));
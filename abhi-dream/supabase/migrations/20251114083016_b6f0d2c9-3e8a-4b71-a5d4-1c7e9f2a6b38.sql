@@ -0,0 +1,45 @@
+-- Tell staff about every new enquiry, however it was submitted (send-enquiry or a
+-- direct guest insert). Assigned enquiries go to the assignee only, the rest to
+-- every admin and employee.
+CREATE OR REPLACE FUNCTION public.notify_new_enquiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _listing_title TEXT;
+BEGIN
+  SELECT title INTO _listing_title FROM public.listings WHERE id = NEW.listing_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_id)
+  SELECT DISTINCT
+    r.user_id,
+    CASE WHEN NEW.assigned_to IS NULL THEN 'New enquiry' ELSE 'New enquiry assigned to you' END,
+    format(
+      '%s%s enquired about %s',
+      NEW.user_name,
+      CASE WHEN NEW.is_guest THEN ' (guest)' ELSE '' END,
+      COALESCE(_listing_title, 'a listing')
+    ),
+    'new_enquiry',
+    NEW.id
+  FROM public.user_roles r
+  WHERE r.role IN ('admin', 'employee')
+    AND (NEW.assigned_to IS NULL OR r.user_id = NEW.assigned_to);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_new_enquiry
+  AFTER INSERT ON public.enquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_new_enquiry();
+
+-- The new enquiry notification already tells the assignee; keep the assignment
+-- notification for later reassignments only
+DROP TRIGGER notify_enquiry_assignee_on_insert ON public.enquiries;
+
+-- Stream enquiry changes so the staff enquiries list stays current
+ALTER PUBLICATION supabase_realtime ADD TABLE public.enquiries;
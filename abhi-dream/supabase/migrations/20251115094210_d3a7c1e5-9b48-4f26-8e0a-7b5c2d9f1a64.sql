@@ -0,0 +1,76 @@
+-- Per-user email opt-outs. A missing row means every email is wanted.
+CREATE TABLE public.email_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  enquiry_updates BOOLEAN NOT NULL DEFAULT true,
+  new_messages BOOLEAN NOT NULL DEFAULT true,
+  new_enquiries BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.email_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own email preferences"
+ON public.email_preferences FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own email preferences"
+ON public.email_preferences FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own email preferences"
+ON public.email_preferences FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_email_preferences_updated_at
+  BEFORE UPDATE ON public.email_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Outgoing emails, rendered when queued and retried with backoff until sent.
+-- Only edge functions (service role) read or write it, so there are no policies.
+CREATE TABLE public.email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  to_email TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  template TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body_text TEXT NOT NULL,
+  body_html TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX email_outbox_due_idx ON public.email_outbox (next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Hands out due emails to one worker at a time. Claimed rows are pushed back by
+-- _lease_seconds so a crashed worker's emails are picked up again later.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(_limit INTEGER DEFAULT 20, _lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF public.email_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.email_outbox
+  SET next_attempt_at = NOW() + make_interval(secs => _lease_seconds)
+  WHERE id IN (
+    SELECT id FROM public.email_outbox
+    WHERE status = 'pending' AND next_attempt_at <= NOW()
+    ORDER BY next_attempt_at
+    LIMIT LEAST(GREATEST(_limit, 1), 100)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
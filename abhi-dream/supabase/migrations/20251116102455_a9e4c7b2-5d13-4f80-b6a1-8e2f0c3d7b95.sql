@@ -0,0 +1,70 @@
+-- Guest enquiry tracking. Guests have no account to log in with, so each guest
+-- enquiry gets a secret token; whoever holds the /track/<token> link can follow
+-- its status and reply in the conversation through the track-enquiry function.
+ALTER TABLE public.enquiries ADD COLUMN tracking_token TEXT UNIQUE;
+
+CREATE OR REPLACE FUNCTION public.set_enquiry_tracking_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_guest THEN
+    -- 244 random bits as 64 hex characters
+    NEW.tracking_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+  ELSE
+    NEW.tracking_token := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_enquiry_tracking_token
+  BEFORE INSERT ON public.enquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_enquiry_tracking_token();
+
+UPDATE public.enquiries
+SET tracking_token = replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')
+WHERE is_guest AND tracking_token IS NULL;
+
+-- Guests cannot read enquiries back, so they submit through this function to
+-- learn their tracking token
+CREATE OR REPLACE FUNCTION public.submit_guest_enquiry(
+  _listing_id UUID,
+  _name TEXT,
+  _email TEXT,
+  _phone TEXT,
+  _message TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tracking_token TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.listings WHERE id = _listing_id) THEN
+    RAISE EXCEPTION 'Listing not found';
+  END IF;
+
+  IF COALESCE(trim(_name), '') = '' OR COALESCE(trim(_email), '') = '' OR COALESCE(trim(_phone), '') = '' THEN
+    RAISE EXCEPTION 'Name, email and phone are required';
+  END IF;
+
+  INSERT INTO public.enquiries (listing_id, user_name, user_email, user_phone, message, is_guest)
+  VALUES (_listing_id, trim(_name), trim(_email), trim(_phone), COALESCE(trim(_message), ''), true)
+  RETURNING tracking_token INTO _tracking_token;
+
+  RETURN _tracking_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_guest_enquiry(UUID, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- Guest replies from the tracking page have no account behind them
+ALTER TABLE public.enquiry_messages ALTER COLUMN sender_id DROP NOT NULL;
+ALTER TABLE public.enquiry_messages DROP CONSTRAINT enquiry_messages_sender_role_check;
+ALTER TABLE public.enquiry_messages ADD CONSTRAINT enquiry_messages_sender_role_check
+CHECK (sender_role IN ('user', 'guest', 'admin', 'employee'));
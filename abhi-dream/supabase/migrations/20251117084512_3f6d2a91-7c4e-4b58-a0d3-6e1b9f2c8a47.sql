@@ -0,0 +1,44 @@
+-- Guests (anonymous users) can turn their session into a full account by
+-- adding an email and password. Auth clears is_anonymous once the email is
+-- confirmed, which is when they get the profile and role handle_new_user gives
+-- a normal sign-up, and take over the guest enquiries sent with that email.
+CREATE OR REPLACE FUNCTION public.handle_upgraded_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name, email, phone)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
+    COALESCE(NEW.email, ''),
+    COALESCE(NEW.raw_user_meta_data->>'phone', '')
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'user')
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  -- Guest enquiries are not tied to the anonymous session, only to the email
+  -- the guest typed in, so that is what they are matched on
+  IF NEW.email IS NOT NULL THEN
+    UPDATE public.enquiries
+    SET user_id = NEW.id,
+        is_guest = false
+    WHERE is_guest
+      AND user_id IS NULL
+      AND lower(user_email) = lower(NEW.email);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_upgraded
+  AFTER UPDATE OF is_anonymous ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.is_anonymous AND NOT NEW.is_anonymous)
+  EXECUTE FUNCTION public.handle_upgraded_user();
@@ -0,0 +1,49 @@
+-- Guest enquiries now go through the send-guest-enquiry function, which
+-- validates, rate limits and de-duplicates them. Like account holders' enquiries
+-- (send-enquiry), they are inserted with the service role, so the browser no
+-- longer needs any insert access to enquiries.
+DROP POLICY IF EXISTS "Anyone can create enquiries" ON public.enquiries;
+
+DROP FUNCTION IF EXISTS public.submit_guest_enquiry(UUID, TEXT, TEXT, TEXT, TEXT);
+
+-- Sliding window rate limits for edge functions. A key names what is limited,
+-- e.g. 'guest-enquiry:ip:203.0.113.7'.
+CREATE TABLE public.rate_limit_hits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_rate_limit_hits_key_created_at ON public.rate_limit_hits (key, created_at);
+
+-- No policies: only edge functions use it, through consume_rate_limit
+ALTER TABLE public.rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+-- Records a hit for _key and returns true, or returns false without recording
+-- anything when _key already has _max_hits in the last _window_seconds
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(_key TEXT, _max_hits INTEGER, _window_seconds INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hits INTEGER;
+BEGIN
+  -- Serialise callers for the same key so two requests cannot both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext(_key));
+
+  DELETE FROM public.rate_limit_hits
+  WHERE key = _key AND created_at < NOW() - make_interval(secs => _window_seconds);
+
+  SELECT COUNT(*) INTO _hits FROM public.rate_limit_hits WHERE key = _key;
+  IF _hits >= _max_hits THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.rate_limit_hits (key) VALUES (_key);
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
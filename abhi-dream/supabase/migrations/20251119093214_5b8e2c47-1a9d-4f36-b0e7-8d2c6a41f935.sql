@@ -0,0 +1,73 @@
+-- Backs the admin users console (manage-users edge function). Both functions
+-- read or write auth and role data across users, so only the service role may
+-- call them; the edge function checks the caller is an admin first.
+
+-- One page of registered users (guests have no profile) with their role and
+-- account state, matching _search against name and email
+CREATE OR REPLACE FUNCTION public.admin_list_users(_search TEXT, _limit INTEGER, _offset INTEGER)
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  email TEXT,
+  phone TEXT,
+  role app_role,
+  created_at TIMESTAMPTZ,
+  last_sign_in_at TIMESTAMPTZ,
+  invited_at TIMESTAMPTZ,
+  email_confirmed BOOLEAN,
+  disabled BOOLEAN,
+  total_count BIGINT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.full_name,
+    p.email,
+    p.phone,
+    -- Users are meant to have one role; show the most senior if not
+    (
+      SELECT r.role
+      FROM public.user_roles r
+      WHERE r.user_id = p.id
+      ORDER BY CASE r.role WHEN 'admin' THEN 0 WHEN 'employee' THEN 1 ELSE 2 END
+      LIMIT 1
+    ) AS role,
+    p.created_at,
+    u.last_sign_in_at,
+    u.invited_at,
+    u.email_confirmed_at IS NOT NULL AS email_confirmed,
+    COALESCE(u.banned_until > NOW(), false) AS disabled,
+    COUNT(*) OVER () AS total_count
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.id
+  WHERE _search IS NULL
+    OR p.full_name ILIKE '%' || _search || '%'
+    OR p.email ILIKE '%' || _search || '%'
+  ORDER BY p.created_at DESC, p.id
+  LIMIT _limit
+  OFFSET _offset
+$$;
+
+-- Gives the user exactly one role, replacing whatever they had
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.user_roles
+  WHERE user_id = _user_id AND role <> _role;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_user_id, _role)
+  ON CONFLICT (user_id, role) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_list_users(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_user_role(UUID, app_role) FROM PUBLIC, anon, authenticated;
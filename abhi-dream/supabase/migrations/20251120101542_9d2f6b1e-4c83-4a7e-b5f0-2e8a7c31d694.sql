@@ -0,0 +1,207 @@
+-- Fine-grained permissions. Policies, functions and the app check what a user
+-- may do (has_permission) rather than which role they have, and each role's
+-- permissions are listed in role_permissions. Employees no longer delete
+-- listings or manage users; admins keep everything.
+CREATE TYPE public.app_permission AS ENUM (
+  'listings.create',
+  'listings.update',
+  'listings.delete',
+  -- See every enquiry and its conversation, reply and move it through the pipeline
+  'enquiries.handle',
+  'enquiries.assign',
+  'users.manage',
+  'email_outbox.process'
+);
+
+CREATE TABLE public.role_permissions (
+  role app_role NOT NULL,
+  permission app_permission NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+-- Not secret, and lets admins see what each role can do. Changed by migrations only.
+CREATE POLICY "Authenticated users can view role permissions"
+ON public.role_permissions FOR SELECT
+TO authenticated
+USING (true);
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'admin', permission
+FROM unnest(enum_range(NULL::app_permission)) AS permission;
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('employee', 'listings.create'),
+  ('employee', 'listings.update'),
+  ('employee', 'enquiries.handle');
+
+-- Security definer for the same reason as has_role: policies on user_roles call it
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission app_permission)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles r
+    JOIN public.role_permissions rp ON rp.role = r.role
+    WHERE r.user_id = _user_id AND rp.permission = _permission
+  )
+$$;
+
+-- The signed-in user's permissions, for showing and hiding things in the app
+CREATE OR REPLACE FUNCTION public.my_permissions()
+RETURNS SETOF app_permission
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT rp.permission
+  FROM public.user_roles r
+  JOIN public.role_permissions rp ON rp.role = r.role
+  WHERE r.user_id = auth.uid()
+$$;
+
+-- Listings
+DROP POLICY "Admin and employees can create listings" ON public.listings;
+DROP POLICY "Admin and employees can update listings" ON public.listings;
+DROP POLICY "Admin and employees can delete listings" ON public.listings;
+
+CREATE POLICY "Staff with permission can create listings"
+ON public.listings FOR INSERT
+TO authenticated
+WITH CHECK (has_permission(auth.uid(), 'listings.create'));
+
+CREATE POLICY "Staff with permission can update listings"
+ON public.listings FOR UPDATE
+TO authenticated
+USING (has_permission(auth.uid(), 'listings.update'));
+
+CREATE POLICY "Staff with permission can delete listings"
+ON public.listings FOR DELETE
+TO authenticated
+USING (has_permission(auth.uid(), 'listings.delete'));
+
+-- Any signed-in session, guests included, could upload images before
+DROP POLICY "Authenticated users can upload property images" ON storage.objects;
+
+CREATE POLICY "Staff with permission can upload property images"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'property-images'
+  AND (has_permission(auth.uid(), 'listings.create') OR has_permission(auth.uid(), 'listings.update'))
+);
+
+-- Enquiries
+DROP POLICY "Admin and employees can view all enquiries" ON public.enquiries;
+DROP POLICY "Admin and employees can update enquiries" ON public.enquiries;
+DROP POLICY "Admin and employees can view all enquiry messages" ON public.enquiry_messages;
+DROP POLICY "Admin and employees can view all enquiry history" ON public.enquiry_status_history;
+
+CREATE POLICY "Staff with permission can view all enquiries"
+ON public.enquiries FOR SELECT
+TO authenticated
+USING (has_permission(auth.uid(), 'enquiries.handle'));
+
+CREATE POLICY "Staff with permission can update enquiries"
+ON public.enquiries FOR UPDATE
+TO authenticated
+USING (has_permission(auth.uid(), 'enquiries.handle'))
+WITH CHECK (has_permission(auth.uid(), 'enquiries.handle'));
+
+CREATE POLICY "Staff with permission can view all enquiry messages"
+ON public.enquiry_messages FOR SELECT
+TO authenticated
+USING (has_permission(auth.uid(), 'enquiries.handle'));
+
+CREATE POLICY "Staff with permission can view all enquiry history"
+ON public.enquiry_status_history FOR SELECT
+TO authenticated
+USING (has_permission(auth.uid(), 'enquiries.handle'));
+
+CREATE OR REPLACE FUNCTION public.list_staff()
+RETURNS TABLE(user_id UUID, full_name TEXT, email TEXT, role app_role, open_enquiries INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission(auth.uid(), 'enquiries.handle') THEN
+    RAISE EXCEPTION 'Only staff who handle enquiries can list staff';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.user_id,
+    p.full_name,
+    p.email,
+    r.role,
+    (
+      SELECT count(*)::INTEGER FROM public.enquiries e
+      WHERE e.assigned_to = r.user_id AND public.enquiry_status_is_open(e.status)
+    )
+  FROM public.user_roles r
+  JOIN public.profiles p ON p.id = r.user_id
+  WHERE r.role IN ('admin', 'employee')
+  ORDER BY p.full_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_enquiry_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT has_permission(auth.uid(), 'enquiries.assign') THEN
+    IF TG_OP = 'UPDATE' OR NEW.assigned_to IS NOT NULL THEN
+      RAISE EXCEPTION 'You do not have permission to assign enquiries'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL AND NOT has_permission(NEW.assigned_to, 'enquiries.handle') THEN
+    RAISE EXCEPTION 'Enquiries can only be assigned to staff who handle enquiries'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.assigned_at := CASE WHEN NEW.assigned_to IS NULL THEN NULL ELSE NOW() END;
+  RETURN NEW;
+END;
+$$;
+
+-- User roles
+DROP POLICY "Admins can view all user roles" ON public.user_roles;
+DROP POLICY "Admins can insert user roles" ON public.user_roles;
+DROP POLICY "Admins can update user roles" ON public.user_roles;
+DROP POLICY "Admins can delete user roles" ON public.user_roles;
+
+CREATE POLICY "User managers can view all user roles"
+ON public.user_roles FOR SELECT
+TO authenticated
+USING (has_permission(auth.uid(), 'users.manage'));
+
+CREATE POLICY "User managers can insert user roles"
+ON public.user_roles FOR INSERT
+TO authenticated
+WITH CHECK (has_permission(auth.uid(), 'users.manage'));
+
+CREATE POLICY "User managers can update user roles"
+ON public.user_roles FOR UPDATE
+TO authenticated
+USING (has_permission(auth.uid(), 'users.manage'));
+
+CREATE POLICY "User managers can delete user roles"
+ON public.user_roles FOR DELETE
+TO authenticated
+USING (has_permission(auth.uid(), 'users.manage'));
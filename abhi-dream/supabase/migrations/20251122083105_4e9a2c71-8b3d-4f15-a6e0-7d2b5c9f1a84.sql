@@ -0,0 +1,47 @@
+-- Guest enquiries must only move to an account whose email has been proven.
+-- With auto-confirm on, an upgrade could otherwise claim someone else's
+-- address and with it their enquiries. The tracking link stops working once
+-- the enquiry belongs to an account, which follows it from My Enquiries.
+DROP TRIGGER IF EXISTS on_auth_user_upgraded ON auth.users;
+
+CREATE OR REPLACE FUNCTION public.handle_upgraded_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name, email, phone)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
+    COALESCE(NEW.email, ''),
+    COALESCE(NEW.raw_user_meta_data->>'phone', '')
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'user')
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  -- Guest enquiries are not tied to the anonymous session, only to the email
+  -- the guest typed in, so that is what they are matched on
+  IF NEW.email IS NOT NULL AND NEW.email_confirmed_at IS NOT NULL THEN
+    UPDATE public.enquiries
+    SET user_id = NEW.id,
+        is_guest = false,
+        tracking_token = NULL
+    WHERE is_guest
+      AND user_id IS NULL
+      AND lower(user_email) = lower(NEW.email);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_upgraded
+  AFTER UPDATE OF is_anonymous ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.is_anonymous AND NOT NEW.is_anonymous AND NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION public.handle_upgraded_user();
@@ -0,0 +1,41 @@
+-- consume_rate_limit only cleared old hits for the key being checked, so keys
+-- that are never seen again (one-off IPs and emails) stayed in the table
+-- forever. Each hit now records when it stops counting, and every call purges
+-- all hits that have expired, whatever their key.
+ALTER TABLE public.rate_limit_hits ADD COLUMN expires_at TIMESTAMPTZ;
+
+UPDATE public.rate_limit_hits SET expires_at = created_at + INTERVAL '1 day';
+
+ALTER TABLE public.rate_limit_hits ALTER COLUMN expires_at SET NOT NULL;
+
+CREATE INDEX idx_rate_limit_hits_expires_at ON public.rate_limit_hits (expires_at);
+
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(_key TEXT, _max_hits INTEGER, _window_seconds INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _window INTERVAL := make_interval(secs => _window_seconds);
+  _hits INTEGER;
+BEGIN
+  DELETE FROM public.rate_limit_hits WHERE expires_at < NOW();
+
+  -- Serialise callers for the same key so two requests cannot both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext(_key));
+
+  SELECT COUNT(*) INTO _hits
+  FROM public.rate_limit_hits
+  WHERE key = _key AND created_at >= NOW() - _window;
+
+  IF _hits >= _max_hits THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.rate_limit_hits (key, expires_at) VALUES (_key, NOW() + _window);
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,109 @@
+-- Who gets enquiries is decided by the enquiries.handle permission, the same
+-- check enforce_enquiry_assignment applies to assignees. Picking, listing and
+-- notifying staff by role could otherwise choose someone the trigger rejects
+-- once role_permissions changes.
+CREATE OR REPLACE FUNCTION public.enquiry_handlers()
+RETURNS SETOF UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT r.user_id
+  FROM public.user_roles r
+  WHERE public.has_permission(r.user_id, 'enquiries.handle')
+$$;
+
+-- Used by the functions below and by edge functions with the service role
+REVOKE EXECUTE ON FUNCTION public.enquiry_handlers() FROM PUBLIC, anon, authenticated;
+
+-- The fewest open enquiries wins. Those who can also assign enquiries (admins)
+-- only get them when nobody else can, and ties go to whoever was assigned an
+-- enquiry least recently.
+CREATE OR REPLACE FUNCTION public.pick_enquiry_assignee()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT h.user_id
+  FROM public.enquiry_handlers() AS h(user_id)
+  ORDER BY
+    public.has_permission(h.user_id, 'enquiries.assign'),
+    (
+      SELECT count(*) FROM public.enquiries e
+      WHERE e.assigned_to = h.user_id AND public.enquiry_status_is_open(e.status)
+    ),
+    (SELECT max(e.assigned_at) FROM public.enquiries e WHERE e.assigned_to = h.user_id) NULLS FIRST,
+    h.user_id
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pick_enquiry_assignee() FROM PUBLIC, anon, authenticated;
+
+-- One row per person; role is their most senior one
+CREATE OR REPLACE FUNCTION public.list_staff()
+RETURNS TABLE(user_id UUID, full_name TEXT, email TEXT, role app_role, open_enquiries INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission(auth.uid(), 'enquiries.handle') THEN
+    RAISE EXCEPTION 'Only staff who handle enquiries can list staff';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    h.user_id,
+    p.full_name,
+    p.email,
+    (
+      SELECT r.role FROM public.user_roles r
+      WHERE r.user_id = h.user_id
+      ORDER BY CASE r.role WHEN 'admin' THEN 0 WHEN 'employee' THEN 1 ELSE 2 END
+      LIMIT 1
+    ),
+    (
+      SELECT count(*)::INTEGER FROM public.enquiries e
+      WHERE e.assigned_to = h.user_id AND public.enquiry_status_is_open(e.status)
+    )
+  FROM public.enquiry_handlers() AS h(user_id)
+  JOIN public.profiles p ON p.id = h.user_id
+  ORDER BY p.full_name;
+END;
+$$;
+
+-- Assigned enquiries go to the assignee only, the rest to everyone who
+-- handles enquiries
+CREATE OR REPLACE FUNCTION public.notify_new_enquiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _listing_title TEXT;
+BEGIN
+  SELECT title INTO _listing_title FROM public.listings WHERE id = NEW.listing_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_id)
+  SELECT
+    h.user_id,
+    CASE WHEN NEW.assigned_to IS NULL THEN 'New enquiry' ELSE 'New enquiry assigned to you' END,
+    format(
+      '%s%s enquired about %s',
+      NEW.user_name,
+      CASE WHEN NEW.is_guest THEN ' (guest)' ELSE '' END,
+      COALESCE(_listing_title, 'a listing')
+    ),
+    'new_enquiry',
+    NEW.id
+  FROM public.enquiry_handlers() AS h(user_id)
+  WHERE NEW.assigned_to IS NULL OR h.user_id = NEW.assigned_to;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,61 @@
+-- Disabled accounts (banned in auth) and users who lose the enquiries.handle
+-- permission kept getting enquiries: auto-assignment even preferred them, as
+-- they had no recent load. They are now left out of everyone who handles
+-- enquiries, and their open enquiries go back to the unassigned queue.
+CREATE OR REPLACE FUNCTION public.enquiry_handlers()
+RETURNS SETOF UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT r.user_id
+  FROM public.user_roles r
+  JOIN auth.users u ON u.id = r.user_id
+  WHERE public.has_permission(r.user_id, 'enquiries.handle')
+    AND (u.banned_until IS NULL OR u.banned_until <= NOW())
+$$;
+
+-- Unassigns the user's open enquiries and returns how many there were
+CREATE OR REPLACE FUNCTION public.release_user_enquiries(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _released INTEGER;
+BEGIN
+  UPDATE public.enquiries
+  SET assigned_to = NULL
+  WHERE assigned_to = _user_id
+    AND public.enquiry_status_is_open(status);
+
+  GET DIAGNOSTICS _released = ROW_COUNT;
+  RETURN _released;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.user_roles
+  WHERE user_id = _user_id AND role <> _role;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_user_id, _role)
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  IF NOT public.has_permission(_user_id, 'enquiries.handle') THEN
+    PERFORM public.release_user_enquiries(_user_id);
+  END IF;
+END;
+$$;
+
+-- Only called by the manage-users edge function with the service role
+REVOKE EXECUTE ON FUNCTION public.release_user_enquiries(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_user_role(UUID, app_role) FROM PUBLIC, anon, authenticated;
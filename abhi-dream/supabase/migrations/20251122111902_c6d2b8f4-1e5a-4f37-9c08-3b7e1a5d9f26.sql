@@ -0,0 +1,21 @@
+-- Enquiry and message emails go to the address stored on the enquiry, so a
+-- confirmed email change has to reach the user's enquiries as well as their
+-- profile, or the emails keep going to the old address.
+CREATE OR REPLACE FUNCTION public.handle_user_email_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET email = NEW.email
+  WHERE id = NEW.id;
+
+  UPDATE public.enquiries
+  SET user_email = NEW.email
+  WHERE user_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,35 @@
+-- Upgrading no longer takes over guest enquiries sent with the same email:
+-- anyone can type a guest's address, and with auto-confirm on it is not even
+-- checked. Guests now claim their enquiries with the tracking tokens they were
+-- given (claim-enquiries edge function), so this only sets up the account.
+DROP TRIGGER IF EXISTS on_auth_user_upgraded ON auth.users;
+
+CREATE OR REPLACE FUNCTION public.handle_upgraded_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name, email, phone)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
+    COALESCE(NEW.email, ''),
+    COALESCE(NEW.raw_user_meta_data->>'phone', '')
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'user')
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_upgraded
+  AFTER UPDATE OF is_anonymous ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.is_anonymous AND NOT NEW.is_anonymous)
+  EXECUTE FUNCTION public.handle_upgraded_user();
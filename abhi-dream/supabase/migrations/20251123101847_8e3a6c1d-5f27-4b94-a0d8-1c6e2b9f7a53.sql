@@ -0,0 +1,138 @@
+-- A map area crossing the antimeridian comes in with its west edge east of its
+-- east edge, which BETWEEN never matched. Such areas now match listings on
+-- either side of the line, in search_listings and in saved search alerts.
+
+-- Search listings with optional filters. NULL arguments are ignored.
+-- _sort is one of: newest, relevance, price_asc, price_desc, area_desc
+-- _near_lat/_near_lng/_radius_km limit results to a circle around a point and
+-- _south/_west/_north/_east to a map area; both only match geocoded listings.
+-- Pass the sort_key and id of the last row received to fetch the next page.
+CREATE OR REPLACE FUNCTION public.search_listings(
+  _query TEXT DEFAULT NULL,
+  _listing_types TEXT[] DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _min_bedrooms INTEGER DEFAULT NULL,
+  _min_bathrooms INTEGER DEFAULT NULL,
+  _min_area INTEGER DEFAULT NULL,
+  _max_area INTEGER DEFAULT NULL,
+  _property_type TEXT DEFAULT NULL,
+  _status TEXT DEFAULT NULL,
+  _near_lat DOUBLE PRECISION DEFAULT NULL,
+  _near_lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _south DOUBLE PRECISION DEFAULT NULL,
+  _west DOUBLE PRECISION DEFAULT NULL,
+  _north DOUBLE PRECISION DEFAULT NULL,
+  _east DOUBLE PRECISION DEFAULT NULL,
+  _sort TEXT DEFAULT 'newest',
+  _cursor_key TEXT DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (listing public.listings, sort_key TEXT)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _document CONSTANT TEXT := 'to_tsvector(''english'', l.title || '' '' || l.description || '' '' || coalesce(l.address, ''''))';
+  _tsquery tsquery;
+  _key TEXT;
+  _key_type TEXT;
+  _ascending BOOLEAN := false;
+BEGIN
+  IF NULLIF(trim(_query), '') IS NOT NULL THEN
+    _tsquery := websearch_to_tsquery('english', _query);
+  END IF;
+
+  -- The key expressions match the (created_at, id), (price, id) and area indexes
+  CASE
+    WHEN _sort = 'relevance' AND _tsquery IS NOT NULL THEN
+      _key := format('ts_rank(%s, $1)::NUMERIC', _document);
+      _key_type := 'NUMERIC';
+    WHEN _sort = 'price_asc' THEN
+      _key := 'l.price';
+      _key_type := 'NUMERIC';
+      _ascending := true;
+    WHEN _sort = 'price_desc' THEN
+      _key := 'l.price';
+      _key_type := 'NUMERIC';
+    WHEN _sort = 'area_desc' THEN
+      _key := 'coalesce(l.area_sqft, -1)';
+      _key_type := 'INTEGER';
+    ELSE
+      _key := 'l.created_at';
+      _key_type := 'TIMESTAMPTZ';
+  END CASE;
+
+  RETURN QUERY EXECUTE format(
+    $query$
+      SELECT l, (%1$s)::TEXT
+      FROM public.listings l
+      WHERE ($2 IS NULL OR l.listing_type = ANY($2))
+        AND ($1 IS NULL OR %2$s @@ $1)
+        AND ($3 IS NULL OR l.price >= $3)
+        AND ($4 IS NULL OR l.price <= $4)
+        AND ($5 IS NULL OR l.bedrooms >= $5)
+        AND ($6 IS NULL OR l.bathrooms >= $6)
+        AND ($7 IS NULL OR l.area_sqft >= $7)
+        AND ($8 IS NULL OR l.area_sqft <= $8)
+        AND ($9 IS NULL OR l.property_type = $9)
+        AND ($10 IS NULL OR l.status = $10)
+        AND ($11 IS NULL OR $12 IS NULL OR $13 IS NULL OR (
+          -- Cheap bounding box first so the coordinates index can be used
+          l.latitude BETWEEN $11 - $13 / 111.045 AND $11 + $13 / 111.045
+          AND public.distance_km($11, $12, l.latitude, l.longitude) <= $13
+        ))
+        AND ($14 IS NULL OR $15 IS NULL OR $16 IS NULL OR $17 IS NULL OR (
+          l.latitude BETWEEN $14 AND $16
+          AND (l.longitude BETWEEN $15 AND $17
+            OR ($15 > $17 AND (l.longitude >= $15 OR l.longitude <= $17)))
+        ))
+        AND ($18 IS NULL OR (%1$s, l.id) %3$s ($18::%4$s, $19))
+      ORDER BY %1$s %5$s, l.id %5$s
+      LIMIT $20
+    $query$,
+    _key,
+    _document,
+    CASE WHEN _ascending THEN '>' ELSE '<' END,
+    _key_type,
+    CASE WHEN _ascending THEN 'ASC' ELSE 'DESC' END
+  )
+  USING _tsquery, _listing_types, _min_price, _max_price, _min_bedrooms, _min_bathrooms,
+    _min_area, _max_area, _property_type, _status, _near_lat, _near_lng, _radius_km,
+    _south, _west, _north, _east, _cursor_key, _cursor_id, LEAST(GREATEST(_limit, 1), 100);
+END;
+$$;
+
+-- Same rules as search_listings, applied to a single listing
+CREATE OR REPLACE FUNCTION public.listing_matches_search(_listing public.listings, _search public.saved_searches)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (_search.listing_types IS NULL OR _listing.listing_type = ANY(_search.listing_types))
+    AND (NULLIF(trim(_search.query), '') IS NULL
+      OR to_tsvector('english', _listing.title || ' ' || _listing.description || ' ' || coalesce(_listing.address, ''))
+        @@ websearch_to_tsquery('english', _search.query))
+    AND (_search.min_price IS NULL OR _listing.price >= _search.min_price)
+    AND (_search.max_price IS NULL OR _listing.price <= _search.max_price)
+    AND (_search.min_bedrooms IS NULL OR _listing.bedrooms >= _search.min_bedrooms)
+    AND (_search.min_bathrooms IS NULL OR _listing.bathrooms >= _search.min_bathrooms)
+    AND (_search.min_area IS NULL OR _listing.area_sqft >= _search.min_area)
+    AND (_search.max_area IS NULL OR _listing.area_sqft <= _search.max_area)
+    AND (_search.property_type IS NULL OR _listing.property_type = _search.property_type)
+    AND (_search.status IS NULL OR _listing.status = _search.status)
+    AND (_search.near_lat IS NULL OR _search.near_lng IS NULL OR _search.radius_km IS NULL
+      OR public.distance_km(_search.near_lat, _search.near_lng, _listing.latitude, _listing.longitude) <= _search.radius_km)
+    AND (_search.south IS NULL OR _search.west IS NULL OR _search.north IS NULL OR _search.east IS NULL OR (
+      _listing.latitude BETWEEN _search.south AND _search.north
+      AND (_listing.longitude BETWEEN _search.west AND _search.east
+        OR (_search.west > _search.east AND (_listing.longitude >= _search.west OR _listing.longitude <= _search.east)))
+    )),
+    false
+  );
+$$;
@@ -0,0 +1,10 @@
+-- Images taken off a listing, or left by a deleted one, were never removed
+-- from storage because nobody was allowed to delete them. Staff who can edit
+-- or delete listings now clean them up from the listing forms.
+CREATE POLICY "Staff with permission can delete property images"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'property-images'
+  AND (has_permission(auth.uid(), 'listings.update') OR has_permission(auth.uid(), 'listings.delete'))
+);